@@ -0,0 +1,33 @@
+import type { BunAdapterLogger } from "./connection-string.js";
+import type { BunPoolOptions } from "./pool-settings.js";
+import type { BunReplicaOptions } from "./replicas.js";
+import type { BunSslConfig } from "./tls.js";
+
+// Configuration of the standard and optimized Postgres and MySQL adapters
+
+export interface BunPostgresConfig extends BunPoolOptions {
+	connectionString: string;
+	// Read replicas for queries outside transactions
+	replicas?: string[];
+	replicaOptions?: BunReplicaOptions;
+	// TLS settings; also read from sslmode/sslrootcert/sslcert/sslkey URL params
+	ssl?: BunSslConfig;
+	// Transaction-mode pooler (PgBouncer, Supabase) in front of the server;
+	// also enabled by ?pgbouncer=true
+	pgbouncer?: boolean;
+	// search_path of every connection; overrides the ?schema= URL param
+	schema?: string;
+	// Receives warnings about ignored connection string parameters (default console)
+	logger?: BunAdapterLogger;
+}
+
+export interface BunMySQLConfig extends BunPoolOptions {
+	connectionString: string;
+	// Read replicas for queries outside transactions
+	replicas?: string[];
+	replicaOptions?: BunReplicaOptions;
+	// TLS settings; also read from sslmode/sslrootcert/sslcert/sslkey URL params
+	ssl?: BunSslConfig;
+	// Receives warnings about ignored connection string parameters (default console)
+	logger?: BunAdapterLogger;
+}
@@ -0,0 +1,214 @@
+import type { ArgType } from "@prisma/driver-adapter-utils";
+import type { BunSqlProvider } from "./errors.js";
+import { scanPlaceholders } from "./placeholders.js";
+
+const pad = (n: number, width = 2) => String(n).padStart(width, "0");
+
+function formatDate(date: Date): string {
+	return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+}
+
+function formatTime(date: Date): string {
+	return `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())}.${pad(date.getUTCMilliseconds(), 3)}`;
+}
+
+// DateTime parameters in the format each provider parses without loss
+function formatDateTime(
+	provider: BunSqlProvider,
+	date: Date,
+	dbType: string | undefined,
+): string {
+	const nativeType = dbType?.toUpperCase();
+	if (nativeType === "DATE") return formatDate(date);
+	if (nativeType === "TIME") return formatTime(date);
+	if (nativeType === "TIMETZ") return `${formatTime(date)}+00`;
+
+	switch (provider) {
+		case "postgres":
+			return `${formatDate(date)} ${formatTime(date)}+00:00`;
+		case "mysql":
+			// DATETIME/TIMESTAMP literals can't carry an offset on older servers
+			return `${formatDate(date)} ${formatTime(date)}`;
+		case "sqlite":
+			return date.toISOString().replace("Z", "+00:00");
+	}
+}
+
+function toBytes(value: unknown): unknown {
+	if (value instanceof Uint8Array) return value;
+	if (typeof value === "string") {
+		// Prisma sends Bytes parameters base64-encoded
+		return Uint8Array.from(atob(value), (c) => c.charCodeAt(0));
+	}
+	if (Array.isArray(value)) return Uint8Array.from(value);
+	if (ArrayBuffer.isView(value)) {
+		return new Uint8Array(value.buffer, value.byteOffset, value.byteLength);
+	}
+	if (value instanceof ArrayBuffer) return new Uint8Array(value);
+	return value;
+}
+
+function toBigInt(value: unknown): unknown {
+	if (typeof value === "bigint") return value;
+	if (
+		(typeof value === "number" && Number.isInteger(value)) ||
+		(typeof value === "string" && /^-?\d+$/.test(value.trim()))
+	) {
+		return BigInt(typeof value === "string" ? value.trim() : value);
+	}
+	return value;
+}
+
+function toNumber(value: unknown): unknown {
+	if (typeof value === "string" || typeof value === "bigint") {
+		const n = Number(value);
+		return Number.isNaN(n) ? value : n;
+	}
+	return value;
+}
+
+function bindScalar(
+	provider: BunSqlProvider,
+	value: unknown,
+	argType: ArgType,
+): unknown {
+	if (value === null || value === undefined) {
+		return null;
+	}
+
+	switch (argType.scalarType) {
+		case "int":
+		case "float":
+			return toNumber(value);
+		case "bigint":
+			return toBigInt(value);
+		case "decimal":
+			// Exact decimal text; the server parses it without float rounding
+			return typeof value === "string" ? value : String(value);
+		case "boolean":
+			if (provider === "sqlite" && typeof value === "boolean") {
+				return value ? 1 : 0;
+			}
+			return value;
+		case "datetime": {
+			const date = value instanceof Date ? value : new Date(value as any);
+			if (Number.isNaN(date.getTime())) return value;
+			return formatDateTime(provider, date, argType.dbType);
+		}
+		case "bytes":
+			return toBytes(value);
+		case "json":
+			// Prisma's JSON text, bound unchanged; see castPgJsonPlaceholders
+			return typeof value === "string" ? value : JSON.stringify(value);
+		default:
+			return value;
+	}
+}
+
+const isJsonArg = (argType: ArgType | undefined) =>
+	argType?.scalarType === "json" && argType.arity !== "list";
+
+/**
+ * Cast the Postgres placeholders of Json arguments from text to `jsonb`, or
+ * `json` for `@db.Json` columns. Bun.sql JSON-encodes values bound to
+ * parameters the server types as json/jsonb, which would store Prisma's JSON
+ * text as a JSON string; typed as text, the server parses it instead, so
+ * JSON `null`, strings and large numbers keep their value.
+ */
+export function castPgJsonPlaceholders(
+	provider: BunSqlProvider,
+	sql: string,
+	argTypes: ArgType[] | undefined,
+): string {
+	if (provider !== "postgres" || !argTypes?.some(isJsonArg)) return sql;
+
+	let tokens = scanPlaceholders(provider, sql);
+	const numbered = tokens.filter((token) => token.kind === "numbered");
+	tokens = numbered.length ? numbered : tokens;
+
+	let result = "";
+	let last = 0;
+	let highest = 0;
+	for (const token of tokens) {
+		const number =
+			token.kind === "numbered" ? Number(token.value) : highest + 1;
+		highest = Math.max(highest, number);
+		const argType = argTypes[number - 1];
+		if (!isJsonArg(argType)) continue;
+		const type = argType!.dbType?.toUpperCase() === "JSON" ? "json" : "jsonb";
+		result += `${sql.slice(last, token.end)}::text::${type}`;
+		last = token.end;
+	}
+	return result + sql.slice(last);
+}
+
+/**
+ * Encode a list as a Postgres array literal. Elements are already bound to
+ * their scalar representation.
+ */
+export function toPgArrayLiteral(values: unknown[]): string {
+	const quote = (s: string) =>
+		`"${s.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+	const encodeItem = (v: unknown): string => {
+		if (v === null || v === undefined) return "NULL";
+		switch (typeof v) {
+			case "number":
+				return Number.isFinite(v) ? String(v) : "NULL";
+			case "bigint":
+				return v.toString();
+			case "boolean":
+				return v ? "true" : "false";
+			case "string":
+				return quote(v);
+		}
+		if (v instanceof Uint8Array) {
+			let hex = "\\x";
+			for (const byte of v) hex += byte.toString(16).padStart(2, "0");
+			return quote(hex);
+		}
+		try {
+			return quote(JSON.stringify(v));
+		} catch {
+			return "NULL";
+		}
+	};
+	return `{${values.map(encodeItem).join(",")}}`;
+}
+
+// Untyped primitive JS arrays bound into Postgres array columns (e.g. text[])
+// must be array literals; object arrays are left alone for JSON payloads.
+function isPrimitiveArray(value: unknown): value is unknown[] {
+	return (
+		Array.isArray(value) &&
+		value.every(
+			(v) => v === null || ["string", "number", "boolean"].includes(typeof v),
+		)
+	);
+}
+
+/**
+ * Convert Prisma query arguments to the JS values Bun.sql binds correctly for
+ * the declared argument types. Untyped arguments are passed through, apart
+ * from the Postgres array literal coercion above.
+ */
+export function bindArgs(
+	provider: BunSqlProvider,
+	args: unknown[],
+	argTypes: ArgType[] | undefined,
+): unknown[] {
+	return args.map((value, i) => {
+		const argType = argTypes?.[i];
+		if (!argType || argType.scalarType === "unknown") {
+			return provider === "postgres" && isPrimitiveArray(value)
+				? toPgArrayLiteral(value)
+				: value;
+		}
+		if (argType.arity === "list" && Array.isArray(value)) {
+			const items = value.map((item) => bindScalar(provider, item, argType));
+			// Bun.sql (1.4) fails to encode JS arrays as Postgres arrays, and its
+			// sql.array() sends NULL elements as the text "null"
+			return provider === "postgres" ? toPgArrayLiteral(items) : items;
+		}
+		return bindScalar(provider, value, argType);
+	});
+}
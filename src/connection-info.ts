@@ -0,0 +1,74 @@
+import type { ConnectionInfo } from "@prisma/driver-adapter-utils";
+
+// Both protocols count statement parameters in a 16-bit field
+export const POSTGRES_MAX_BIND_VALUES = 65535;
+export const MYSQL_MAX_BIND_VALUES = 65535;
+
+// SQLITE_MAX_VARIABLE_NUMBER defaults to 999 before SQLite 3.32.0
+const SQLITE_MAX_BIND_VALUES = 32766;
+const SQLITE_LEGACY_MAX_BIND_VALUES = 999;
+
+// "8.0.36-0ubuntu0.22.04.1" -> [8, 0, 36]; null when unrecognizable
+function versionParts(version: string | null): number[] | null {
+	const match = version?.match(/(\d+)\.(\d+)(?:\.(\d+))?/);
+	return match ? [Number(match[1]), Number(match[2]), Number(match[3] ?? 0)] : null;
+}
+
+function atLeast(parts: number[], minimum: number[]): boolean {
+	for (let i = 0; i < minimum.length; i++) {
+		if (parts[i] !== minimum[i]) return parts[i] > minimum[i];
+	}
+	return true;
+}
+
+export function postgresConnectionInfo(schemaName?: string): ConnectionInfo {
+	return {
+		schemaName,
+		maxBindValues: POSTGRES_MAX_BIND_VALUES,
+		supportsRelationJoins: true,
+	};
+}
+
+/**
+ * Relation joins need LATERAL derived tables, which MySQL added in 8.0.14 and
+ * MariaDB doesn't have. An unknown version gets the safe answer (no joins).
+ */
+export function mysqlConnectionInfo(
+	version: string | null,
+	schemaName?: string,
+): ConnectionInfo {
+	const parts = versionParts(version);
+	return {
+		schemaName,
+		maxBindValues: MYSQL_MAX_BIND_VALUES,
+		supportsRelationJoins:
+			parts !== null && !/mariadb/i.test(version!) && atLeast(parts, [8, 0, 14]),
+	};
+}
+
+// An unknown version gets the smaller, pre-3.32 limit
+export function sqliteConnectionInfo(version: string | null): ConnectionInfo {
+	const parts = versionParts(version);
+	return {
+		maxBindValues:
+			parts !== null && atLeast(parts, [3, 32, 0])
+				? SQLITE_MAX_BIND_VALUES
+				: SQLITE_LEGACY_MAX_BIND_VALUES,
+		supportsRelationJoins: false,
+	};
+}
+
+// Database name of a MySQL connection string, which MySQL calls its schema
+export function databaseName(connectionString: string): string | undefined {
+	const withoutQuery = connectionString.split(/[?#]/)[0];
+	const rest = withoutQuery.replace(/^[a-z][a-z0-9+.-]*:\/\//i, "");
+	const afterAuthority = rest.slice(rest.lastIndexOf("@") + 1);
+	const slash = afterAuthority.indexOf("/");
+	if (slash === -1) return undefined;
+	const name = afterAuthority.slice(slash + 1);
+	try {
+		return decodeURIComponent(name) || undefined;
+	} catch {
+		return name || undefined;
+	}
+}
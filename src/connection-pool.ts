@@ -0,0 +1,127 @@
+import { PoolDiagnostics, PoolTimeoutError } from "./errors.js";
+import type { BunPoolSettings } from "./pool-settings.js";
+
+export type ReleaseSlot = () => void;
+
+export interface PoolWaitStats {
+	// Requests that got a slot, and those that gave up waiting for one
+	acquired: number;
+	timedOut: number;
+	// Milliseconds spent queued for a slot
+	totalWaitMs: number;
+	maxWaitMs: number;
+}
+
+interface Waiter {
+	resolve: (release: ReleaseSlot) => void;
+	reject: (error: unknown) => void;
+	queuedAt: number;
+	timer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Bounds how many operations use the pool at once. Bun.sql queues excess
+ * queries internally without any limit or timeout, so callers take a slot
+ * here first and fail with a P2024 PoolTimeoutError instead of waiting
+ * forever.
+ */
+export class PoolSlots {
+	private inUse = 0;
+	private waiters: Waiter[] = [];
+	private closedWith: unknown = null;
+	private waits: PoolWaitStats = {
+		acquired: 0,
+		timedOut: 0,
+		totalWaitMs: 0,
+		maxWaitMs: 0,
+	};
+
+	constructor(
+		private readonly settings: Pick<
+			BunPoolSettings,
+			"maxConnections" | "poolTimeout" | "queueLimit"
+		>,
+	) {}
+
+	stats(): PoolDiagnostics {
+		return {
+			poolSize: this.settings.maxConnections,
+			inUse: this.inUse,
+			queueDepth: this.waiters.length,
+			poolTimeout: this.settings.poolTimeout,
+			queueLimit: this.settings.queueLimit,
+		};
+	}
+
+	waitStats(): PoolWaitStats {
+		return { ...this.waits };
+	}
+
+	acquire(): Promise<ReleaseSlot> {
+		if (this.closedWith) {
+			return Promise.reject(this.closedWith);
+		}
+		if (this.inUse < this.settings.maxConnections) {
+			this.inUse++;
+			this.waits.acquired++;
+			return Promise.resolve(this.releaser());
+		}
+		const { queueLimit, poolTimeout } = this.settings;
+		if (queueLimit > 0 && this.waiters.length >= queueLimit) {
+			return Promise.reject(new PoolTimeoutError("queue_full", this.stats()));
+		}
+
+		return new Promise<ReleaseSlot>((resolve, reject) => {
+			const waiter: Waiter = { resolve, reject, queuedAt: performance.now() };
+			if (poolTimeout > 0) {
+				waiter.timer = setTimeout(() => {
+					// Report the queue as it was while this request waited
+					const diagnostics = this.stats();
+					this.waiters.splice(this.waiters.indexOf(waiter), 1);
+					this.waits.timedOut++;
+					reject(new PoolTimeoutError("timeout", diagnostics));
+				}, poolTimeout * 1000);
+			}
+			this.waiters.push(waiter);
+		});
+	}
+
+	// Run `fn` while holding a slot
+	async run<T>(fn: () => Promise<T>): Promise<T> {
+		const release = await this.acquire();
+		try {
+			return await fn();
+		} finally {
+			release();
+		}
+	}
+
+	// Fail current and future waiters, e.g. once the adapter is disposed
+	close(error: unknown = new Error("Connection pool is closed")): void {
+		this.closedWith = error;
+		for (const waiter of this.waiters.splice(0)) {
+			clearTimeout(waiter.timer);
+			waiter.reject(error);
+		}
+	}
+
+	private releaser(): ReleaseSlot {
+		let released = false;
+		return () => {
+			if (released) return;
+			released = true;
+			const next = this.waiters.shift();
+			if (next) {
+				// Hand the slot straight to the next waiter
+				clearTimeout(next.timer);
+				const waited = performance.now() - next.queuedAt;
+				this.waits.acquired++;
+				this.waits.totalWaitMs += waited;
+				this.waits.maxWaitMs = Math.max(this.waits.maxWaitMs, waited);
+				next.resolve(this.releaser());
+			} else {
+				this.inUse--;
+			}
+		};
+	}
+}
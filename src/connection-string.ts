@@ -0,0 +1,253 @@
+import type { BunSqlProvider } from "./errors.js";
+import { PGBOUNCER_STARTUP_PARAMS } from "./pgbouncer.js";
+import type { BunPoolOptions } from "./pool-settings.js";
+
+// What the adapter takes from a Prisma-style connection string
+export interface ParsedConnectionString {
+	// Connection string for Bun.sql, without the parameters handled here
+	url: string;
+	pool: BunPoolOptions;
+	// Postgres schema that unqualified names resolve to (search_path)
+	schema?: string;
+	pgbouncer: boolean;
+	// SQLite busy_timeout in milliseconds, from Prisma's socket_timeout (seconds)
+	busyTimeout?: number;
+	// Parameters that were dropped or could not be fully honored
+	warnings: string[];
+}
+
+// Connection behavior the Postgres adapters take from the parsed string
+export type PgSessionOptions = Pick<ParsedConnectionString, "pgbouncer" | "schema">;
+
+interface QueryParam {
+	name: string;
+	value: string;
+	raw: string;
+}
+
+function splitQuery(connectionString: string) {
+	const hashAt = connectionString.indexOf("#");
+	const hash = hashAt === -1 ? "" : connectionString.slice(hashAt);
+	const beforeHash =
+		hashAt === -1 ? connectionString : connectionString.slice(0, hashAt);
+	const queryAt = beforeHash.indexOf("?");
+	const base = queryAt === -1 ? beforeHash : beforeHash.slice(0, queryAt);
+	const params: QueryParam[] = [];
+	if (queryAt !== -1) {
+		for (const raw of beforeHash.slice(queryAt + 1).split("&")) {
+			if (!raw) continue;
+			const eq = raw.indexOf("=");
+			const decode = (s: string) => decodeURIComponent(s.replace(/\+/g, " "));
+			params.push({
+				name: decode(eq === -1 ? raw : raw.slice(0, eq)),
+				value: eq === -1 ? "" : decode(raw.slice(eq + 1)),
+				raw,
+			});
+		}
+	}
+	return { base, params, hash };
+}
+
+function joinQuery(base: string, params: string[], hash: string): string {
+	return `${base}${params.length ? `?${params.join("&")}` : ""}${hash}`;
+}
+
+/**
+ * Remove `names` from the query string, leaving the rest of the URL exactly as
+ * written (credentials may not survive a URL parser round trip).
+ */
+export function takeQueryParams(
+	connectionString: string,
+	names: readonly string[],
+): { url: string; params: Record<string, string> } {
+	const { base, params, hash } = splitQuery(connectionString);
+	const taken: Record<string, string> = {};
+	const kept: string[] = [];
+	for (const param of params) {
+		if (names.includes(param.name)) taken[param.name] = param.value;
+		else kept.push(param.raw);
+	}
+	return { url: joinQuery(base, kept, hash), params: taken };
+}
+
+// Read later by resolveTls
+const TLS_PARAMS = new Set([
+	"sslmode",
+	"sslrootcert",
+	"sslcert",
+	"sslkey",
+	"sslaccept",
+]);
+
+// libpq parameters that Bun.sql forwards as startup parameters and the
+// server accepts. Bun.sql sends every other parameter too, and the server
+// rejects the connection for anything that isn't a setting.
+const PG_PARAMS = new Set(["application_name", "client_encoding", "options"]);
+
+// Understood by Bun's SQLite client (mode=ro|rw|rwc|memory)
+const SQLITE_PARAMS = new Set(["mode"]);
+
+const UNSUPPORTED: Record<string, string> = {
+	socket_timeout: "Bun.sql has no socket timeout",
+	sslidentity: "PKCS#12 identities are not supported; use sslcert/sslkey PEM files",
+	sslpassword: "PKCS#12 identities are not supported; use sslcert/sslkey PEM files",
+	host: "Unix socket connections are not supported",
+	socket: "Unix socket connections are not supported",
+};
+
+function nonNegative(name: string, value: string): number {
+	const n = Number(value);
+	if (value.trim() === "" || !Number.isFinite(n) || n < 0) {
+		throw new Error(`Invalid ${name} "${value}" in connection string`);
+	}
+	return n;
+}
+
+export function quoteIdentifier(name: string): string {
+	return `"${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Extract the parameters Prisma's engines understand (`connection_limit`,
+ * `pool_timeout`, `schema`, `pgbouncer`, ...) and map them to pool settings
+ * and adapter behavior. Other parameters are dropped with a warning unless the
+ * driver understands them. Explicit `pgbouncer` and `schema` options override
+ * the URL parameters.
+ */
+export function parseConnectionString(
+	provider: BunSqlProvider,
+	connectionString: string,
+	options: { pgbouncer?: boolean; schema?: string } = {},
+): ParsedConnectionString {
+	const { base, params, hash } = splitQuery(connectionString);
+	const pool: BunPoolOptions = {};
+	let kept: QueryParam[] = [];
+	const warnings: string[] = [];
+	let schema: string | undefined;
+	let pgbouncer = false;
+	let busyTimeout: number | undefined;
+	const networked = provider !== "sqlite";
+
+	for (const param of params) {
+		const { name, value } = param;
+		switch (name) {
+			case "connection_limit": {
+				const limit = Number(value);
+				if (!Number.isInteger(limit) || limit < 1) {
+					throw new Error(`Invalid connection_limit "${value}" in connection string`);
+				}
+				if (networked) pool.maxConnections = limit;
+				else if (limit !== 1) {
+					warnings.push("connection_limit is ignored: SQLite uses a single connection");
+				}
+				continue;
+			}
+			case "pool_timeout":
+				pool.poolTimeout = nonNegative(name, value);
+				continue;
+			case "connect_timeout":
+				if (networked) pool.connectionTimeout = nonNegative(name, value);
+				continue;
+			case "max_connection_lifetime":
+				if (networked) pool.maxLifetime = nonNegative(name, value);
+				continue;
+			case "max_idle_connection_lifetime":
+				if (networked) pool.idleTimeout = nonNegative(name, value);
+				continue;
+			case "schema":
+				if (provider === "postgres") schema = value;
+				else warnings.push("schema is ignored: it only applies to Postgres");
+				continue;
+			case "pgbouncer":
+				if (provider !== "postgres") {
+					warnings.push("pgbouncer is ignored: it only applies to Postgres");
+				} else {
+					pgbouncer = value === "true";
+				}
+				continue;
+			case "socket_timeout":
+				if (networked) break;
+				busyTimeout = nonNegative(name, value) * 1000;
+				continue;
+			case "statement_cache_size":
+				if (!networked) continue;
+				if (nonNegative(name, value) === 0) pool.prepare = false;
+				else {
+					warnings.push(
+						"statement_cache_size is ignored: Bun.sql manages its prepared statement cache",
+					);
+				}
+				continue;
+		}
+
+		if (name in UNSUPPORTED) {
+			warnings.push(`${name} is ignored: ${UNSUPPORTED[name]}`);
+		} else if (networked ? TLS_PARAMS.has(name) : SQLITE_PARAMS.has(name)) {
+			kept.push(param);
+		} else if (provider === "postgres" && PG_PARAMS.has(name)) {
+			kept.push(param);
+		} else {
+			warnings.push(`${name} is ignored: not supported by Bun's ${provider} client`);
+		}
+	}
+
+	if (provider === "postgres") {
+		pgbouncer = options.pgbouncer ?? pgbouncer;
+		schema = options.schema ?? schema;
+	}
+	if (pgbouncer) {
+		// Transaction-mode poolers can't keep named statements per client
+		pool.prepare = false;
+		kept = kept.filter(({ name }) => {
+			if (TLS_PARAMS.has(name) || PGBOUNCER_STARTUP_PARAMS.has(name.toLowerCase())) {
+				return true;
+			}
+			warnings.push(
+				`${name} is ignored: PgBouncer only accepts the ${[...PGBOUNCER_STARTUP_PARAMS].join(", ")} startup parameters`,
+			);
+			return false;
+		});
+		if (schema !== undefined) {
+			warnings.push(
+				"schema only sets search_path inside transactions in pgbouncer mode: other unqualified raw queries use the server's default",
+			);
+		}
+	} else if (schema !== undefined) {
+		// Bun.sql sends it as a startup parameter of every connection it opens,
+		// including reserved ones, so no SET is needed
+		kept.push({
+			name: "search_path",
+			value: schema,
+			raw: `search_path=${encodeURIComponent(quoteIdentifier(schema))}`,
+		});
+	}
+
+	return {
+		url: joinQuery(
+			base,
+			kept.map(({ raw }) => raw),
+			hash,
+		),
+		pool,
+		schema,
+		pgbouncer,
+		busyTimeout,
+		warnings,
+	};
+}
+
+// Receives the adapter's warnings, such as ignored connection string parameters
+export interface BunAdapterLogger {
+	warn(message: string): void;
+}
+
+// Pass the parser's warnings to the config's logger, or the console
+export function reportConnectionWarnings(
+	parsed: ParsedConnectionString,
+	config: string | { logger?: BunAdapterLogger },
+): void {
+	const logger = (typeof config === "string" ? undefined : config.logger) ?? console;
+	for (const warning of parsed.warnings) {
+		logger.warn(`prisma-bun-adapter: ${warning}`);
+	}
+}
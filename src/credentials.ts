@@ -0,0 +1,134 @@
+interface UrlParts {
+	scheme: string;
+	userinfo: string;
+	hostport: string;
+	// Path, query and fragment
+	tail: string;
+}
+
+function authorityEnd(s: string): number {
+	let boundary = s.length;
+	for (const sep of ["/", "?", "#"]) {
+		const idx = s.indexOf(sep);
+		if (idx !== -1 && idx < boundary) boundary = idx;
+	}
+	return boundary;
+}
+
+// The userinfo ends at the last '@' of the authority, so an unencoded '@' in
+// the password stays in it
+function splitUrl(raw: string): UrlParts | null {
+	const m = raw.match(/^([a-zA-Z][a-zA-Z0-9+.-]*):\/\//);
+	if (!m) return null;
+	const rest = raw.slice(m[0].length);
+	const authority = rest.slice(0, authorityEnd(rest));
+	let at = authority.lastIndexOf("@");
+	// An unencoded '/', '?' or '#' in the password ends the authority early,
+	// at "user:pa" rather than a host and port
+	if (at === -1 && /^[^:[]*:(?!\d*$)/.test(authority)) {
+		at = rest.lastIndexOf("@");
+	}
+	if (at === -1) return null;
+	const hostAndTail = rest.slice(at + 1);
+	const boundary = authorityEnd(hostAndTail);
+	return {
+		scheme: m[1],
+		userinfo: rest.slice(0, at),
+		hostport: hostAndTail.slice(0, boundary),
+		tail: hostAndTail.slice(boundary),
+	};
+}
+
+function safeDecode(s: string): string {
+	try {
+		return decodeURIComponent(s);
+	} catch {
+		return s;
+	}
+}
+
+function splitUserinfo(userinfo: string): { user: string; password: string } {
+	const colon = userinfo.indexOf(":");
+	return colon === -1
+		? { user: userinfo, password: "" }
+		: { user: userinfo.slice(0, colon), password: userinfo.slice(colon + 1) };
+}
+
+/**
+ * Percent-encode the credentials of a Postgres or MySQL URL so Bun.sql's URL
+ * parser accepts them. Credentials that are already encoded are not encoded
+ * twice, and SQLite URLs are returned unchanged.
+ */
+export function normalizeConnectionString(input: string): string {
+	const raw = String(input ?? "").trim();
+	if (!raw) return raw;
+	// SQLite URLs carry no credentials, and the URL parser would turn
+	// file:./dev.db into file:///dev.db and file::memory: into a file
+	if (/^(?:file|sqlite):/i.test(raw)) return raw;
+
+	const parts = splitUrl(raw);
+	// The URL parser would end the userinfo at an unencoded / ? or #
+	if (!parts || !/[/?#]/.test(parts.userinfo)) {
+		try {
+			const u = new URL(raw);
+			const scheme = u.protocol.replace(":", "");
+			if (["postgres", "postgresql", "mysql", "mysqls"].includes(scheme)) {
+				// Avoid double-encoding: decode valid %HH triplets first, then encode
+				const decodeTriplets = (s: string) =>
+					s.replace(/%[0-9a-fA-F]{2}/g, safeDecode);
+				if (u.username)
+					u.username = encodeURIComponent(decodeTriplets(u.username));
+				if (u.password)
+					u.password = encodeURIComponent(decodeTriplets(u.password));
+				return u.toString();
+			}
+			return raw;
+		} catch {}
+	}
+
+	if (!parts) return raw;
+	const { user, password } = splitUserinfo(parts.userinfo);
+	const username = encodeURIComponent(safeDecode(user));
+	const authority = password
+		? `${username}:${encodeURIComponent(safeDecode(password))}@${parts.hostport}`
+		: `${username}@${parts.hostport}`;
+	return `${parts.scheme}://${authority}${parts.tail}`;
+}
+
+// The password moved to a ?password= query parameter, for URLs whose
+// encoded password the server still rejects
+function toPgPasswordQueryVariant(raw: string): string | null {
+	const parts = splitUrl(raw);
+	if (!parts || !["postgres", "postgresql"].includes(parts.scheme)) return null;
+	const { user, password } = splitUserinfo(parts.userinfo);
+	if (!password) return null;
+
+	const username = encodeURIComponent(safeDecode(user));
+	const qIdx = parts.tail.indexOf("?");
+	const path = qIdx === -1 ? parts.tail : parts.tail.slice(0, qIdx);
+	const query = qIdx === -1 ? "" : parts.tail.slice(qIdx + 1);
+	const param = `password=${encodeURIComponent(safeDecode(password))}`;
+	return `${parts.scheme}://${username}@${parts.hostport}${path}?${query ? `${query}&` : ""}${param}`;
+}
+
+/**
+ * URLs to try, in order, when opening a Postgres connection: the normalized
+ * URL, the URL as given, and the password as a query parameter.
+ */
+export function pgConnectionCandidates(input: string): string[] {
+	const raw = String(input ?? "").trim();
+	const normalized = normalizeConnectionString(raw);
+	const out: string[] = [];
+	if (normalized) out.push(normalized);
+	if (raw && raw !== normalized) out.push(raw);
+	const variant = toPgPasswordQueryVariant(raw);
+	if (variant && !out.includes(variant)) out.push(variant);
+	return out;
+}
+
+export function isPgAuthFailed(err: any): boolean {
+	const msg = String(err?.message ?? "").toLowerCase();
+	return (
+		msg.includes("password authentication failed") || msg.includes("28p01")
+	);
+}
@@ -0,0 +1,433 @@
+import {
+	DriverAdapterError,
+	isDriverAdapterError,
+	type Error as DriverAdapterErrorPayload,
+	type MappedError,
+} from "@prisma/driver-adapter-utils";
+
+export type BunSqlProvider = "postgres" | "mysql" | "sqlite";
+
+// Socket-level failures surfaced by Bun's networking layer (Postgres/MySQL)
+const SOCKET_ERRORS = new Set([
+	"ENOTFOUND",
+	"ECONNREFUSED",
+	"ECONNRESET",
+	"ETIMEDOUT",
+	"EPIPE",
+]);
+
+const SQLSTATE_REGEX = /^[0-9A-Z]{5}$/;
+
+export interface PoolDiagnostics {
+	poolSize: number;
+	inUse: number;
+	queueDepth: number;
+	// Seconds a request may wait for a connection (0 = no limit)
+	poolTimeout: number;
+	// Maximum waiting requests (0 = no limit)
+	queueLimit: number;
+}
+
+/**
+ * No pooled connection became available in time, or the wait queue was full.
+ * Raised as a `TooManyConnections` DriverAdapterError so Prisma reports it as
+ * a known error; `code` keeps Prisma's pool timeout code (P2024) and the
+ * error carries the pool's state at the moment of failure.
+ */
+export class PoolTimeoutError extends DriverAdapterError {
+	readonly code = "P2024";
+	readonly reason: "timeout" | "queue_full";
+	readonly diagnostics: PoolDiagnostics;
+
+	constructor(reason: "timeout" | "queue_full", diagnostics: PoolDiagnostics) {
+		const summary =
+			reason === "timeout"
+				? "Timed out fetching a new connection from the connection pool."
+				: "The connection pool wait queue is full.";
+		const message =
+			`${summary} More info: http://pris.ly/d/connection-pool ` +
+			`(Current connection pool timeout: ${diagnostics.poolTimeout}, ` +
+			`connection limit: ${diagnostics.poolSize}, in use: ${diagnostics.inUse}, ` +
+			`waiting: ${diagnostics.queueDepth}, queue limit: ${diagnostics.queueLimit})`;
+		super({
+			kind: "TooManyConnections",
+			cause: message,
+			originalCode: "P2024",
+			originalMessage: message,
+		});
+		this.message = message;
+		this.reason = reason;
+		this.diagnostics = diagnostics;
+	}
+}
+
+/**
+ * A statement of an `executeScript` script failed. It is the driver error's
+ * `DriverAdapterError`, so `cause` holds the mapped kind, with the failing
+ * statement's position added. The name stays `DriverAdapterError`, which is
+ * how Prisma recognizes mapped errors.
+ */
+export class ScriptError extends DriverAdapterError {
+	// 0-based position of the statement in the script
+	readonly statementIndex: number;
+	// 1-based line of the script where the statement starts
+	readonly line: number;
+	readonly statement: string;
+
+	constructor(
+		statementIndex: number,
+		line: number,
+		statement: string,
+		error: DriverAdapterError,
+	) {
+		super(error.cause);
+		const reason = error.cause.originalMessage ?? error.message;
+		this.message = `Statement ${statementIndex + 1} of the script (line ${line}) failed: ${reason}`;
+		this.statementIndex = statementIndex;
+		this.line = line;
+		this.statement = statement;
+	}
+}
+
+/**
+ * Translate an error thrown by Bun's SQL clients into a `DriverAdapterError`
+ * so Prisma can raise its known request errors (P2002, P2003, P2025, ...).
+ * Errors that are already mapped, or that don't originate from the driver,
+ * are returned unchanged.
+ */
+export function convertDriverError(
+	provider: BunSqlProvider,
+	error: unknown,
+): unknown {
+	if (isDriverAdapterError(error)) {
+		return error;
+	}
+	if (!error || typeof error !== "object") {
+		return error;
+	}
+
+	const mapped = mapError(provider, error as any);
+	if (!mapped) {
+		return error;
+	}
+
+	const err = error as any;
+	const payload: DriverAdapterErrorPayload = {
+		...mapped,
+		originalCode:
+			err.errno !== undefined && err.errno !== null
+				? String(err.errno)
+				: typeof err.code === "string"
+					? err.code
+					: undefined,
+		originalMessage: typeof err.message === "string" ? err.message : undefined,
+	};
+	return new DriverAdapterError(payload);
+}
+
+function mapError(provider: BunSqlProvider, error: any): MappedError | null {
+	const socket = mapSocketError(error);
+	if (socket) {
+		return socket;
+	}
+
+	switch (provider) {
+		case "postgres":
+			return mapPostgresError(error);
+		case "mysql":
+			return mapMySQLError(error);
+		case "sqlite":
+			return mapSQLiteError(error);
+		default:
+			return null;
+	}
+}
+
+function mapSocketError(error: any): MappedError | null {
+	const code = typeof error.code === "string" ? error.code : "";
+	if (!SOCKET_ERRORS.has(code)) {
+		return null;
+	}
+	switch (code) {
+		case "ENOTFOUND":
+		case "ECONNREFUSED":
+			return {
+				kind: "DatabaseNotReachable",
+				host: error.address ?? error.hostname,
+				port: typeof error.port === "number" ? error.port : undefined,
+			};
+		case "ETIMEDOUT":
+			return { kind: "SocketTimeout" };
+		default:
+			return { kind: "ConnectionClosed" };
+	}
+}
+
+// Bun's PostgresError keeps the SQLSTATE in `errno` and a Bun-specific
+// `ERR_POSTGRES_*` identifier in `code`.
+function postgresSqlState(error: any): string | null {
+	for (const candidate of [error.errno, error.code, error.sqlState]) {
+		if (typeof candidate === "string" && SQLSTATE_REGEX.test(candidate)) {
+			return candidate;
+		}
+	}
+	return null;
+}
+
+function quotedName(message: string): string | undefined {
+	return message.match(/"([^"]+)"/)?.[1];
+}
+
+function mapPostgresError(error: any): MappedError | null {
+	const message = String(error.message ?? "");
+	const code = postgresSqlState(error);
+	// Bun decorates every Error with a numeric source `column`; only the
+	// server-provided column name is a string
+	const column =
+		typeof error.column === "string" && error.column ? error.column : undefined;
+
+	if (!code) {
+		switch (error.code) {
+			case "ERR_POSTGRES_CONNECTION_CLOSED":
+				return { kind: "ConnectionClosed" };
+			case "ERR_POSTGRES_CONNECTION_TIMEOUT":
+			case "ERR_POSTGRES_IDLE_TIMEOUT":
+			case "ERR_POSTGRES_LIFETIME_TIMEOUT":
+				return { kind: "SocketTimeout" };
+			case "ERR_POSTGRES_TLS_NOT_AVAILABLE":
+			case "ERR_POSTGRES_TLS_UPGRADE_FAILED":
+				return { kind: "TlsConnectionError", reason: message };
+			default:
+				if (
+					typeof error.code === "string" &&
+					error.code.startsWith("ERR_POSTGRES_AUTHENTICATION")
+				) {
+					return { kind: "AuthenticationFailed" };
+				}
+				return null;
+		}
+	}
+
+	const keyFields = (): string[] | undefined =>
+		String(error.detail ?? "")
+			.match(/Key \(([^)]+)\)/)?.[1]
+			?.split(", ");
+
+	switch (code) {
+		case "22001":
+			return { kind: "LengthMismatch", column };
+		case "22003":
+			return { kind: "ValueOutOfRange", cause: message };
+		case "23505": {
+			const fields = keyFields();
+			return {
+				kind: "UniqueConstraintViolation",
+				constraint: fields
+					? { fields }
+					: error.constraint
+						? { index: error.constraint }
+						: undefined,
+			};
+		}
+		case "23502": {
+			const fields = column ? [column] : keyFields();
+			return {
+				kind: "NullConstraintViolation",
+				constraint: fields ? { fields } : undefined,
+			};
+		}
+		case "23503": {
+			const fields = keyFields();
+			return {
+				kind: "ForeignKeyConstraintViolation",
+				constraint: column
+					? { fields: [column] }
+					: fields
+						? { fields }
+						: error.constraint
+							? { index: error.constraint }
+							: undefined,
+			};
+		}
+		case "3D000":
+			return { kind: "DatabaseDoesNotExist", db: quotedName(message) };
+		case "28000":
+			return { kind: "DatabaseAccessDenied", db: quotedName(message) };
+		case "28P01":
+			return { kind: "AuthenticationFailed", user: quotedName(message) };
+		case "40001":
+		case "40P01":
+			return { kind: "TransactionWriteConflict" };
+		case "42P01":
+			return { kind: "TableDoesNotExist", table: quotedName(message) };
+		case "42703":
+			return { kind: "ColumnNotFound", column: quotedName(message) };
+		case "42P04":
+			return { kind: "DatabaseAlreadyExists", db: quotedName(message) };
+		case "53300":
+			return { kind: "TooManyConnections", cause: message };
+		case "25P02":
+			return { kind: "TransactionAlreadyClosed", cause: message };
+		case "57014":
+			return { kind: "SocketTimeout" };
+		default:
+			return {
+				kind: "postgres",
+				code,
+				severity: String(error.severity ?? "N/A"),
+				message,
+				detail: error.detail,
+				column,
+				hint: error.hint,
+			};
+	}
+}
+
+function mapMySQLError(error: any): MappedError | null {
+	const errno = typeof error.errno === "number" ? error.errno : Number.NaN;
+	if (Number.isNaN(errno)) {
+		if (
+			typeof error.code === "string" &&
+			error.code.startsWith("ERR_MYSQL_CONNECTION_CLOSED")
+		) {
+			return { kind: "ConnectionClosed" };
+		}
+		return null;
+	}
+
+	const message = String(error.message ?? "");
+	// Identifiers are quoted with '...' or `...` depending on the statement
+	const quoted = (): string[] =>
+		Array.from(message.matchAll(/['`]([^'`]+)['`]/g), (m) => m[1]);
+
+	switch (errno) {
+		case 1062: {
+			const index = quoted().pop()?.split(".").pop();
+			return {
+				kind: "UniqueConstraintViolation",
+				constraint: index !== undefined ? { index } : undefined,
+			};
+		}
+		case 1451:
+		case 1452: {
+			const field = message.match(/FOREIGN KEY \(`([^`]+)`\)/)?.[1];
+			return {
+				kind: "ForeignKeyConstraintViolation",
+				constraint: field !== undefined ? { fields: [field] } : undefined,
+			};
+		}
+		case 1048:
+		case 1364: {
+			const field = quoted()[0];
+			return {
+				kind: "NullConstraintViolation",
+				constraint: field !== undefined ? { fields: [field] } : undefined,
+			};
+		}
+		case 1263: {
+			const index = quoted().pop();
+			return {
+				kind: "NullConstraintViolation",
+				constraint: index !== undefined ? { index } : undefined,
+			};
+		}
+		case 1264:
+			return { kind: "ValueOutOfRange", cause: message };
+		case 1406:
+			return { kind: "LengthMismatch", column: quoted()[0] };
+		case 1049:
+			return { kind: "DatabaseDoesNotExist", db: quoted().pop() };
+		case 1007:
+			return { kind: "DatabaseAlreadyExists", db: quoted()[0] };
+		case 1044:
+			return { kind: "DatabaseAccessDenied", db: quoted().pop() };
+		case 1045:
+			return { kind: "AuthenticationFailed", user: quoted()[0] };
+		case 1146:
+			return {
+				kind: "TableDoesNotExist",
+				table: quoted()[0]?.split(".").pop(),
+			};
+		case 1054:
+			return { kind: "ColumnNotFound", column: quoted()[0] };
+		case 1191:
+			return { kind: "MissingFullTextSearchIndex" };
+		case 1205:
+			return { kind: "SocketTimeout" };
+		case 1213:
+			return { kind: "TransactionWriteConflict" };
+		case 1040:
+		case 1203:
+			return { kind: "TooManyConnections", cause: message };
+		default:
+			return {
+				kind: "mysql",
+				code: errno,
+				message,
+				state: String(error.sqlState ?? "N/A"),
+			};
+	}
+}
+
+function mapSQLiteError(error: any): MappedError | null {
+	const code = typeof error.code === "string" ? error.code : "";
+	if (!code.startsWith("SQLITE_")) {
+		return null;
+	}
+
+	const message = String(error.message ?? "");
+	// e.g. "UNIQUE constraint failed: User.email, User.name"
+	const constraintFields = (): string[] | undefined =>
+		message
+			.split("constraint failed: ")[1]
+			?.split(", ")
+			.map((field) => field.split(".").pop()!);
+
+	switch (code) {
+		case "SQLITE_BUSY":
+		case "SQLITE_BUSY_SNAPSHOT":
+		case "SQLITE_BUSY_TIMEOUT":
+		case "SQLITE_LOCKED":
+			return { kind: "SocketTimeout" };
+		case "SQLITE_CONSTRAINT_UNIQUE":
+		case "SQLITE_CONSTRAINT_PRIMARYKEY": {
+			const fields = constraintFields();
+			return {
+				kind: "UniqueConstraintViolation",
+				constraint: fields ? { fields } : undefined,
+			};
+		}
+		case "SQLITE_CONSTRAINT_NOTNULL": {
+			const fields = constraintFields();
+			return {
+				kind: "NullConstraintViolation",
+				constraint: fields ? { fields } : undefined,
+			};
+		}
+		case "SQLITE_CONSTRAINT_FOREIGNKEY":
+		case "SQLITE_CONSTRAINT_TRIGGER":
+			return {
+				kind: "ForeignKeyConstraintViolation",
+				constraint: { foreignKey: {} },
+			};
+	}
+
+	if (message.startsWith("no such table")) {
+		return {
+			kind: "TableDoesNotExist",
+			table: message.split(": ")[1]?.split(".").pop(),
+		};
+	}
+	if (message.startsWith("no such column")) {
+		return { kind: "ColumnNotFound", column: message.split(": ")[1] };
+	}
+	if (message.includes("has no column named ")) {
+		return { kind: "ColumnNotFound", column: message.split(" ").pop() };
+	}
+
+	return {
+		kind: "sqlite",
+		extendedCode: typeof error.errno === "number" ? error.errno : 1,
+		message,
+	};
+}
@@ -1,18 +1,79 @@
 import {
 	ColumnType,
 	ColumnTypeEnum,
+	ConnectionInfo,
 	IsolationLevel,
 	SqlDriverAdapter,
 	SqlQuery,
 	SqlResultSet,
-	Transaction,
 } from "@prisma/driver-adapter-utils";
+import type { BunMySQLConfig, BunPostgresConfig } from "./adapter-config.js";
+import { bindArgs, castPgJsonPlaceholders } from "./arg-binding.js";
+import {
+	databaseName,
+	mysqlConnectionInfo,
+	postgresConnectionInfo,
+	sqliteConnectionInfo,
+} from "./connection-info.js";
+import { PoolSlots } from "./connection-pool.js";
+import {
+	BunAdapterLogger,
+	ParsedConnectionString,
+	PgSessionOptions,
+	parseConnectionString,
+	quoteIdentifier,
+	reportConnectionWarnings,
+} from "./connection-string.js";
+import {
+	isPgAuthFailed,
+	normalizeConnectionString,
+	pgConnectionCandidates,
+} from "./credentials.js";
+import { convertDriverError } from "./errors.js";
+import { assertPgBouncerSafe } from "./pgbouncer.js";
+import {
+	BunPoolOptions,
+	BunPoolSettings,
+	SQLITE_POOL_DEFAULTS,
+	mergePoolOptions,
+	resolvePoolSettings,
+	toBunSqlPoolOptions,
+} from "./pool-settings.js";
+import { PgResultDescriber } from "./postgres-describe.js";
+import { serializePgValue } from "./postgres-types.js";
+import { ReplicaRouter, isReadOnlyQuery } from "./replicas.js";
+import {
+	ResultDescription,
+	applyDescribedTypes,
+	firstNonNull,
+	inferColumnTypes,
+	serializeResultValue,
+} from "./result-values.js";
+import { BunTransaction, SavepointStack } from "./savepoints.js";
+import { BunScriptOptions, runScript, splitScript } from "./script.js";
+import { TemplateCache, TemplateCacheStats } from "./template-cache.js";
+import { BunSslConfig, resolveTls } from "./tls.js";
+import {
+	BunTransactionOptions,
+	transactionStartStatements,
+} from "./transaction-start.js";
+import { affectedRowCount, lastInsertId } from "./write-result.js";
+import {
+	BunSQLitePragmas,
+	DEFAULT_SQLITE_PRAGMAS,
+	sqlitePragmaStatements,
+} from "./sqlite-pragmas.js";
+import { SQLiteDeclaredTypes } from "./sqlite-declared-types.js";
+import {
+	inferSQLiteValueType,
+	serializeSQLiteValue,
+} from "./sqlite-types.js";
 
 // Common interfaces
 interface BunSqlResult extends Array<any> {
 	count: number;
 	command: string;
-	lastInsertRowid: number | null;
+	lastInsertRowid: number | bigint | null;
 	affectedRows: number | null;
 }
 
@@ -37,52 +98,46 @@ interface BunReservedSqlConnection {
 }
 
 // Configuration interfaces
-export interface BunPostgresConfig {
-	connectionString: string;
-	maxConnections?: number;
-	idleTimeout?: number;
-	ssl?:
-		| boolean
-		| {
-				rejectUnauthorized?: boolean;
-				ca?: string;
-				cert?: string;
-				key?: string;
-		  };
-}
-
-export interface BunMySQLConfig {
-	connectionString: string;
-	maxConnections?: number;
-	idleTimeout?: number;
-	ssl?:
-		| boolean
-		| {
-				rejectUnauthorized?: boolean;
-				ca?: string;
-				cert?: string;
-				key?: string;
-		  };
-}
-
-export interface BunSQLiteConfig {
+export interface BunSQLiteConfig
+	extends Pick<BunPoolOptions, "poolTimeout" | "queueLimit" | "templateCacheSize"> {
 	filename: string;
+	// Bun's SQLite client always uses a single connection
 	maxConnections?: number;
+	// Open the database read-only
 	readonly?: boolean;
+	// Create the database file if it doesn't exist (default true)
 	create?: boolean;
+	// PRAGMAs for every connection, over foreign_keys=ON, journal_mode=WAL,
+	// synchronous=NORMAL and busy_timeout=5000
+	pragmas?: BunSQLitePragmas;
+	// Queue writes for the writer connection and serve reads outside
+	// transactions from a read-only connection (file databases in WAL mode)
+	writeScheduler?: boolean | BunSQLiteWriteSchedulerOptions;
+	// Receives warnings about ignored connection string parameters (default console)
+	logger?: BunAdapterLogger;
 }
 
-// Cache for template strings to avoid repeated parsing
-const templateCache = new Map<
-	string,
-	{ strings: TemplateStringsArray; paramCount: number; argOrder: number[] }
->();
+export interface BunSQLiteWriteSchedulerOptions {
+	// Seconds a write may wait for its turn (0 = no limit); defaults to poolTimeout
+	timeout?: number;
+	// Maximum queued writes (0 = no limit); defaults to queueLimit
+	queueLimit?: number;
+}
 
-// Pre-compiled column type matchers for better performance
-const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
-const DATETIME_REGEX = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}/;
-const UUID_REGEX =
-	/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+export interface BunSQLiteWriteQueueStats {
+	// A write, script or transaction holds the writer connection
+	active: boolean;
+	queued: number;
+	// Seconds a write may wait, and the queue bound (0 = no limit)
+	timeout: number;
+	queueLimit: number;
+	// Writes that got their turn, and those that timed out waiting for it
+	acquired: number;
+	timedOut: number;
+	totalWaitMs: number;
+	maxWaitMs: number;
+	averageWaitMs: number;
+}
 
 // Base adapter class with shared functionality
 abstract class BaseBunDriverAdapter implements SqlDriverAdapter {
@@ -90,62 +145,241 @@ abstract class BaseBunDriverAdapter implements SqlDriverAdapter {
 	abstract readonly adapterName: string;
 
 	protected connection: BunSqlConnection | null = null;
+	private connecting: Promise<BunSqlConnection> | null = null;
 	protected connectionString: string;
-	protected maxConnections: number;
-
-	constructor(connectionString: string, maxConnections: number = 5) {
+	readonly poolSettings: Readonly<BunPoolSettings>;
+	protected slots: PoolSlots;
+	private templateCache: TemplateCache | null = null;
+	protected replicas: ReplicaRouter | null;
+	protected ssl: BunSslConfig | undefined;
+	// Reported by the warm-up query of providers whose limits depend on it
+	protected serverVersion: string | null = null;
+
+	constructor(
+		connectionString: string,
+		poolSettings: Readonly<BunPoolSettings> = resolvePoolSettings(),
+		replicas: ReplicaRouter | null = null,
+		ssl?: BunSslConfig,
+	) {
 		this.connectionString = connectionString;
-		this.maxConnections = maxConnections;
+		this.poolSettings = poolSettings;
+		this.slots = new PoolSlots(poolSettings);
+		this.replicas = replicas;
+		this.ssl = ssl;
 	}
 
 	protected async getConnection(): Promise<BunSqlConnection> {
-		if (!this.connection) {
-			this.connection = await this.createConnection();
+		if (this.connection) {
+			return this.connection;
+		}
+		// Concurrent first queries must share one pool, not each create their own
+		if (!this.connecting) {
+			this.connecting = this.createConnection().finally(() => {
+				this.connecting = null;
+			});
 		}
+		this.connection = await this.connecting;
 		return this.connection;
 	}
 
 	protected abstract createConnection(): Promise<BunSqlConnection>;
 
+	// Created on first use: `provider` is only set once subclasses initialize
+	protected get templates(): TemplateCache {
+		if (!this.templateCache) {
+			this.templateCache = new TemplateCache(
+				this.provider,
+				this.poolSettings.templateCacheSize,
+			);
+		}
+		return this.templateCache;
+	}
+
+	abstract getConnectionInfo(): ConnectionInfo;
+
+	// Open the pool early so getConnectionInfo knows the server version. A
+	// failure is left for the first query to report.
+	async loadServerVersion(): Promise<void> {
+		try {
+			await this.getConnection();
+		} catch {
+			// getConnectionInfo falls back to conservative values
+		}
+	}
+
+	// Run the warm-up query and remember the server version it returns
+	protected async warmUp(
+		connection: BunSqlConnection,
+		versionSql: string,
+	): Promise<void> {
+		try {
+			const [row] = await connection(this.createTemplateStrings([versionSql]));
+			const version = row ? Object.values(row)[0] : null;
+			this.serverVersion = typeof version === "string" ? version : null;
+		} catch (error) {
+			// Ignore warm-up errors
+		}
+	}
+
+	// Take a dedicated connection out of the pool for a transaction
+	protected reserveConnection(
+		connection: BunSqlConnection,
+	): Promise<BunReservedSqlConnection> {
+		return connection.reserve();
+	}
+
 	async dispose(): Promise<void> {
+		this.slots.close();
+		this.slots = new PoolSlots(this.poolSettings);
+		await this.replicas?.dispose();
 		if (this.connection) {
 			await this.connection.end();
 			this.connection = null;
 		}
-		templateCache.clear();
+		this.templates.clear();
+		this.forgetDescriptions();
 	}
 
-	async executeScript(script: string): Promise<void> {
-		const connection = await this.getConnection();
-		const statements = script.split(";").filter((stmt) => stmt.trim());
+	// Hit/miss/eviction counters of the compiled query cache
+	templateCacheStats(): TemplateCacheStats {
+		return this.templates.stats();
+	}
 
-		for (const statement of statements) {
-			if (statement.trim()) {
-				const strings = this.createTemplateStrings([statement.trim()]);
-				await connection(strings);
-			}
+	// Map native driver failures to Prisma's structured DriverAdapterError kinds
+	protected convertError(error: unknown): unknown {
+		return convertDriverError(this.provider, error);
+	}
+
+	// Bind parameters according to Prisma's declared argument types
+	protected bindQueryArgs(query: SqlQuery): unknown[] {
+		return bindArgs(this.provider, query.args || [], query.argTypes);
+	}
+
+	// Query text with the casts its declared argument types need
+	protected bindQuerySql(query: SqlQuery): string {
+		return castPgJsonPlaceholders(this.provider, query.sql, query.argTypes);
+	}
+
+	// Reject statements the adapter's connection mode can't run safely
+	protected assertStatementSupported(_sql: string): void {}
+
+	// Release a reserved connection and the pool slot held for it
+	protected async releaseReserved(
+		reserved: BunReservedSqlConnection,
+		releaseSlot: () => void,
+	): Promise<void> {
+		try {
+			await reserved.release?.();
+		} catch {
+			// ignore release errors
+		} finally {
+			releaseSlot();
+		}
+	}
+
+	async executeScript(
+		script: string,
+		options: BunScriptOptions = {},
+	): Promise<void> {
+		const statements = splitScript(this.provider, script);
+		statements.forEach(({ sql }) => this.assertStatementSupported(sql));
+
+		// Session state set by one statement must be visible to the next
+		const releaseSlot = await this.slots.acquire();
+		let reserved: BunReservedSqlConnection;
+		try {
+			reserved = await this.reserveConnection(await this.getConnection());
+		} catch (error) {
+			releaseSlot();
+			throw this.convertError(error);
+		}
+		try {
+			await runScript(
+				this.provider,
+				statements,
+				(sql) => reserved(this.createTemplateStrings([sql])),
+				(error) => this.convertError(error),
+				options,
+			);
+			this.replicas?.recordWrite();
+		} finally {
+			this.forgetDescriptions();
+			await this.releaseReserved(reserved, releaseSlot);
 		}
 	}
 
 	async queryRaw(query: SqlQuery): Promise<SqlResultSet> {
-		const connection = await this.getConnection();
-		const result = await this.executeQueryOptimized(
-			connection,
-			query.sql,
-			query.args || [],
-		);
+		this.assertStatementSupported(query.sql);
+		if (this.replicas?.routesToReplica(query.sql)) {
+			return this.replicas.queryRaw(query, () => this.queryPrimary(query));
+		}
+		return this.queryPrimary(query);
+	}
+
+	private async queryPrimary(query: SqlQuery): Promise<SqlResultSet> {
+		try {
+			const resultSet = await this.slots.run(async () => {
+				const connection = await this.getConnection();
+				const sql = this.bindQuerySql(query);
+				const args = this.bindQueryArgs(query);
+				const result = await this.executeQueryOptimized(connection, sql, args);
+				const description = await this.describeResult(sql, args, result, null);
+				return this.toResultSet(result, query.sql, description);
+			});
+			if (this.replicas && !isReadOnlyQuery(query.sql)) {
+				this.replicas.recordWrite();
+			}
+			return resultSet;
+		} catch (error) {
+			throw this.convertError(error);
+		}
+	}
+
+	// Column types and names of a query's result where the driver doesn't
+	// report them; results are typed from their values when this is null
+	protected async describeResult(
+		_sql: string,
+		_args: unknown[],
+		_result: BunSqlResult,
+		_transaction: BunSqlTransaction | null,
+	): Promise<ResultDescription | null> {
+		return null;
+	}
 
+	// Drop cached descriptions a statement may have made stale; all of them
+	// without a statement
+	protected forgetDescriptions(_sql?: string): void {}
+
+	// Build Prisma's result set, typing columns from the description or
+	// else from the returned values
+	protected toResultSet(
+		result: BunSqlResult,
+		sql: string,
+		description: ResultDescription | null = null,
+	): SqlResultSet {
+		const insertId = lastInsertId(sql, result);
 		if (!Array.isArray(result) || result.length === 0) {
-			return { columnNames: [], columnTypes: [], rows: [] };
+			const names = description?.columnNames ?? [];
+			return {
+				columnNames: names,
+				columnTypes: names.map(
+					(_, i) => description?.columnTypes[i] ?? ColumnTypeEnum.UnknownNumber,
+				),
+				rows: [],
+				...(insertId !== undefined && { lastInsertId: insertId }),
+			};
 		}
 
-		const firstRow = result[0];
-		const columnNames = Object.keys(firstRow);
+		const columnNames = Object.keys(result[0]);
 		const columnCount = columnNames.length;
 		const rowCount = result.length;
 
 		// Determine column types by scanning all rows to better detect JSON columns
-		const columnTypes = this.determineColumnTypes(result, columnNames);
+		const columnTypes = applyDescribedTypes(
+			description,
+			columnNames,
+			this.determineColumnTypes(result, columnNames, sql),
+		);
 		const rows = new Array(rowCount);
 
 		for (let rowIndex = 0; rowIndex < rowCount; rowIndex++) {
@@ -154,35 +388,48 @@ abstract class BaseBunDriverAdapter implements SqlDriverAdapter {
 
 			for (let colIndex = 0; colIndex < columnCount; colIndex++) {
 				const val = row[columnNames[colIndex]];
-				if (columnTypes[colIndex] === ColumnTypeEnum.Json) {
-					processedRow[colIndex] = this.ensureJsonString(val);
-				} else {
-					processedRow[colIndex] = this.serializeValueFast(val);
-				}
+				processedRow[colIndex] = this.serializeColumnValue(
+					columnTypes[colIndex],
+					val,
+				);
 			}
 
 			rows[rowIndex] = processedRow;
 		}
 
-		return { columnNames, columnTypes, rows };
+		return {
+			columnNames,
+			columnTypes,
+			rows,
+			...(insertId !== undefined && { lastInsertId: insertId }),
+		};
+	}
+
+	protected serializeColumnValue(type: ColumnType, value: unknown): unknown {
+		return serializeResultValue(type, value);
 	}
 
 	async executeRaw(query: SqlQuery): Promise<number> {
-		const connection = await this.getConnection();
+		this.assertStatementSupported(query.sql);
 		try {
-			const result = await this.executeQueryOptimized(
-				connection,
-				query.sql,
-				query.args || [],
-			);
-			return result.affectedRows || result.count || 0;
+			const result = await this.slots.run(async () => {
+				const connection = await this.getConnection();
+				return this.executeQueryOptimized(
+					connection,
+					this.bindQuerySql(query),
+					this.bindQueryArgs(query),
+				);
+			});
+			this.forgetDescriptions(query.sql);
+			this.replicas?.recordWrite();
+			return affectedRowCount(result);
 		} catch (error) {
-			throw new Error(error instanceof Error ? error.message : String(error));
+			throw this.convertError(error);
 		}
 	}
 
 	protected executeQueryOptimized(
-		connection: BunSqlConnection,
+		connection: BunSqlConnection | BunReservedSqlConnection,
 		sql: string,
 		args: any[],
 	): Promise<BunSqlResult> {
@@ -191,53 +438,10 @@ abstract class BaseBunDriverAdapter implements SqlDriverAdapter {
 			return connection(strings);
 		}
 
-		const cacheKey = sql;
-		let cached = templateCache.get(cacheKey);
-
-		if (
-			(!cached || cached.paramCount !== args.length) &&
-			this.hasParameterPlaceholders(sql)
-		) {
-			const templateSql = this.convertParameterPlaceholders(sql, args.length);
-			const parts = templateSql.split(/\$\{\d+\}/);
-			const strings = this.createTemplateStrings(parts);
-			const re = /\$\{(\d+)\}/g;
-			const argOrder: number[] = [];
-			let m: RegExpExecArray | null = re.exec(templateSql);
-			while (m !== null) {
-				argOrder.push(Number(m[1]));
-				m = re.exec(templateSql);
-			}
-			cached = { strings, paramCount: args.length, argOrder };
-			templateCache.set(cacheKey, cached);
-		}
-
-		if (cached) {
-			const expanded = cached.argOrder?.length
-				? cached.argOrder.map((i) => args[i])
-				: args;
-			const finalArgs =
-				this.provider === "postgres"
-					? this.coerceArgsForPostgres(expanded)
-					: expanded;
-			return connection(cached.strings, ...finalArgs);
-		}
-
-		// Fallback: Query has args but no recognized placeholders
-		// This can happen with Prisma-generated queries that embed parameters differently
-		// We still need to coerce arrays for Postgres compatibility
-		const coercedArgs =
-			this.provider === "postgres" ? this.coerceArgsForPostgres(args) : args;
-		const strings = this.createTemplateStrings([sql]);
-		return connection(strings, ...coercedArgs);
+		const { strings, argOrder } = this.templates.compile(sql, args.length);
+		return connection(strings, ...argOrder.map((i) => args[i]));
 	}
 
-	protected abstract hasParameterPlaceholders(sql: string): boolean;
-	protected abstract convertParameterPlaceholders(
-		sql: string,
-		paramCount: number,
-	): string;
-
 	protected createTemplateStrings(parts: string[]): TemplateStringsArray {
 		if (parts.length === 1) {
 			parts = [...parts, ""];
@@ -245,186 +449,46 @@ abstract class BaseBunDriverAdapter implements SqlDriverAdapter {
 		return Object.assign(parts, { raw: parts }) as TemplateStringsArray;
 	}
 
-	// Convert primitive JS arrays to a Postgres array literal string for array-typed columns.
-	// Leaves complex/object arrays untouched to avoid interfering with JSON payloads.
-	protected coerceArgsForPostgres(args: any[]): any[] {
-		const toPgArrayLiteral = (arr: any[]): string => {
-			const encodeItem = (v: any): string => {
-				if (v === null || v === undefined) return "NULL";
-				switch (typeof v) {
-					case "number":
-						return Number.isFinite(v) ? String(v) : "NULL";
-					case "boolean":
-						return v ? "true" : "false";
-					case "string": {
-						const s = v.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
-						return `"${s}"`;
-					}
-					default: {
-						try {
-							const s = JSON.stringify(v);
-							const e = s.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
-							return `"${e}"`;
-						} catch {
-							return "NULL";
-						}
-					}
-				}
-			};
-			return `{${arr.map(encodeItem).join(",")}}`;
-		};
-
-		const isPrimitiveArray = (a: any[]): boolean =>
-			Array.isArray(a) &&
-			a.every(
-				(v) => v === null || ["string", "number", "boolean"].includes(typeof v),
-			);
-
-		return args.map((v) =>
-			Array.isArray(v) && isPrimitiveArray(v) ? toPgArrayLiteral(v) : v,
-		);
-	}
-
-	// Normalize and encode credentials in connection string to avoid URI errors
-	protected normalizeConnectionString(input: string): string {
-		const raw = String(input ?? "").trim();
-		if (!raw) return raw;
-
-		// Fast path: try URL parser first and re-encode userinfo
-		try {
-			const parsed = new URL(raw);
-			const scheme = parsed.protocol.replace(":", "");
-			if (
-				[
-					"postgres",
-					"postgresql",
-					"mysql",
-					"mysqls",
-					"sqlite",
-					"file",
-				].includes(scheme)
-			) {
-				// Avoid double-encoding: decode valid %HH triplets first, then encode
-				const decodeTriplets = (s: string) =>
-					s.replace(/%[0-9a-fA-F]{2}/g, (m) => {
-						try {
-							return decodeURIComponent(m);
-						} catch {
-							return m;
-						}
-					});
-				if (parsed.username)
-					parsed.username = encodeURIComponent(decodeTriplets(parsed.username));
-				if (parsed.password)
-					parsed.password = encodeURIComponent(decodeTriplets(parsed.password));
-				return parsed.toString();
-			}
-			return raw;
-		} catch {}
-
-		// Fallback: robust rewriter for invalid-but-common raw URLs with special chars in userinfo
-		// Pattern: <scheme>://<userinfo>@<host-and-rest>
-		const schemeMatch = raw.match(/^([a-zA-Z][a-zA-Z0-9+.-]*):\/\//);
-		if (!schemeMatch) return raw;
-		const scheme = schemeMatch[1];
-		const startIdx = schemeMatch[0].length;
-		const rest = raw.slice(startIdx);
-
-		// Find authority boundary (before path/query/fragment)
-		let boundary = rest.length;
-		for (const sep of ["/", "?", "#"]) {
-			const idx = rest.indexOf(sep);
-			if (idx !== -1 && idx < boundary) boundary = idx;
-		}
-		const authority = rest.slice(0, boundary);
-		const tail = rest.slice(boundary);
-
-		// Find the last '@' in authority as delimiter for userinfo
-		const at = authority.lastIndexOf("@");
-		if (at === -1) return raw; // no userinfo
-
-		const userinfoRaw = authority.slice(0, at);
-		const hostport = authority.slice(at + 1);
-
-		// Split user:pass (first ':') and encode safely
-		const colon = userinfoRaw.indexOf(":");
-		const userRaw = colon === -1 ? userinfoRaw : userinfoRaw.slice(0, colon);
-		const passRaw = colon === -1 ? "" : userinfoRaw.slice(colon + 1);
-
-		// Decode if possible, then encode; if decode fails, encode the raw
-		const safeDecode = (s: string) => {
-			try {
-				return decodeURIComponent(s);
-			} catch {
-				return s;
-			}
-		};
-		const username = encodeURIComponent(safeDecode(userRaw));
-		const password =
-			passRaw !== "" ? encodeURIComponent(safeDecode(passRaw)) : "";
-
-		const rebuiltAuthority = password
-			? `${username}:${password}@${hostport}`
-			: `${username}@${hostport}`;
-		return `${scheme}://${rebuiltAuthority}${tail}`;
+	// Statements that open a transaction on a reserved connection
+	protected transactionStartStatements(
+		isolationLevel?: IsolationLevel,
+		options?: BunTransactionOptions,
+	): string[] {
+		return transactionStartStatements(this.provider, isolationLevel, options);
 	}
 
 	async startTransaction(
 		isolationLevel?: IsolationLevel,
-	): Promise<Transaction> {
-		const connection = await this.createConnection();
+		options?: BunTransactionOptions,
+	): Promise<BunTransaction> {
+		const startStatements = this.transactionStartStatements(
+			isolationLevel,
+			options,
+		);
 		let reserved: BunReservedSqlConnection;
 
+		// Hold one connection of the shared pool for the whole transaction, so
+		// the pool size also bounds connections used by open transactions
+		const releaseSlot = await this.slots.acquire();
 		try {
-			reserved = await connection.reserve();
+			const connection = await this.getConnection();
+			reserved = await this.reserveConnection(connection);
 		} catch (err) {
-			try {
-				await connection.end();
-			} catch {
-				// ignore shutdown errors
-			}
-			throw err;
+			releaseSlot();
+			throw this.convertError(err);
 		}
 		let finished = false;
-		let aborted = false;
-
-		const releaseReserved = async (): Promise<void> => {
-			try {
-				const maybeRelease = (reserved as any).release?.();
-				if (maybeRelease && typeof maybeRelease.then === "function") {
-					await maybeRelease;
-				}
-			} catch {
-				// ignore release errors
-			}
-		};
-
-		const closeConnection = async (): Promise<void> => {
-			try {
-				await connection.end();
-			} catch {
-				// ignore shutdown errors
-			}
-		};
 
-		const finalizeResources = async (): Promise<void> => {
-			await releaseReserved();
-			await closeConnection();
-		};
+		const finalizeResources = (): Promise<void> =>
+			this.releaseReserved(reserved, releaseSlot);
 
 		try {
-			const begin = this.createTemplateStrings(["BEGIN"]);
-			await reserved(begin);
-
-			if (isolationLevel && this.provider !== "sqlite") {
-				const iso = this.createTemplateStrings([
-					`SET TRANSACTION ISOLATION LEVEL ${isolationLevel}`,
-				]);
-				await reserved(iso);
+			for (const statement of startStatements) {
+				await reserved(this.createTemplateStrings([statement]));
 			}
 		} catch (err) {
 			await finalizeResources();
-			throw err;
+			throw this.convertError(err);
 		}
 
 		const transaction = ((strings: TemplateStringsArray, ...values: any[]) =>
@@ -445,9 +509,16 @@ abstract class BaseBunDriverAdapter implements SqlDriverAdapter {
 				return;
 			}
 
+			finished = true;
 			try {
 				if (action === "commit") {
-					await transaction.commit();
+					try {
+						await transaction.commit();
+					} catch (err) {
+						// Don't release the connection with its transaction still open
+						await transaction.rollback().catch(() => {});
+						throw err;
+					}
 				} else {
 					try {
 						await transaction.rollback();
@@ -456,7 +527,6 @@ abstract class BaseBunDriverAdapter implements SqlDriverAdapter {
 					}
 				}
 			} finally {
-				finished = true;
 				await finalizeResources();
 			}
 		};
@@ -468,6 +538,7 @@ abstract class BaseBunDriverAdapter implements SqlDriverAdapter {
 			if (finished) {
 				throw new Error("Transaction is already closed");
 			}
+			this.assertStatementSupported(sql);
 
 			try {
 				return await this.executeTransactionQueryOptimized(
@@ -476,11 +547,13 @@ abstract class BaseBunDriverAdapter implements SqlDriverAdapter {
 					args,
 				);
 			} catch (err) {
-				aborted = true;
-				throw err;
+				savepoints.markFailed();
+				throw this.convertError(err);
 			}
 		};
 
+		const savepoints = new SavepointStack((sql) => runQuery(sql, []));
+
 		return {
 			provider: this.provider,
 			adapterName: this.adapterName,
@@ -488,156 +561,65 @@ abstract class BaseBunDriverAdapter implements SqlDriverAdapter {
 				usePhantomQuery: false,
 			},
 			queryRaw: async (query: SqlQuery) => {
-				const result = await runQuery(query.sql, query.args || []);
-
-				if (!Array.isArray(result) || result.length === 0) {
-					return { columnNames: [], columnTypes: [], rows: [] };
-				}
-
-				const firstRow = result[0];
-				const columnNames = Object.keys(firstRow);
-				const columnCount = columnNames.length;
-
-				const columnTypes = this.determineColumnTypes(result, columnNames);
-				const rows = new Array(result.length);
-
-				for (let rowIndex = 0; rowIndex < result.length; rowIndex++) {
-					const row = result[rowIndex];
-					const processedRow = new Array(columnCount);
-
-					for (let colIndex = 0; colIndex < columnCount; colIndex++) {
-						const val = row[columnNames[colIndex]];
-						processedRow[colIndex] =
-							columnTypes[colIndex] === ColumnTypeEnum.Json
-								? this.ensureJsonString(val)
-								: this.serializeValueFast(val);
-					}
-
-					rows[rowIndex] = processedRow;
+				const sql = this.bindQuerySql(query);
+				const args = this.bindQueryArgs(query);
+				const result = await runQuery(sql, args);
+				try {
+					const description = await this.describeResult(
+						sql,
+						args,
+						result,
+						transaction,
+					);
+					return this.toResultSet(result, query.sql, description);
+				} catch (err) {
+					throw this.convertError(err);
 				}
-
-				return { columnNames, columnTypes, rows };
 			},
 			executeRaw: async (query: SqlQuery) => {
-				const result = await runQuery(query.sql, query.args || []);
-				return result.affectedRows || result.count || 0;
+				const result = await runQuery(
+					this.bindQuerySql(query),
+					this.bindQueryArgs(query),
+				);
+				this.forgetDescriptions(query.sql);
+				return affectedRowCount(result);
 			},
 			commit: async () => {
 				if (finished) {
 					return;
 				}
 
-				if (aborted) {
+				if (savepoints.failed) {
 					await finalize("rollback");
 					throw new Error("Transaction rolled back due to a previous error");
 				}
 
 				try {
 					await finalize("commit");
+					this.replicas?.recordWrite();
 				} catch (err) {
-					await finalize("rollback").catch(() => {});
-					throw err;
+					throw this.convertError(err);
 				}
 			},
 			rollback: async () => {
 				await finalize("rollback");
 			},
+			get savepointDepth() {
+				return savepoints.depth;
+			},
+			createSavepoint: (name?: string) => savepoints.create(name),
+			rollbackToSavepoint: (name?: string) => savepoints.rollbackTo(name),
+			releaseSavepoint: (name?: string) => savepoints.release(name),
+			savepoint: (fn) => savepoints.scoped(fn),
 		};
 	}
 
-	private determineColumnTypes(
+	protected determineColumnTypes(
 		result: any[],
 		columnNames: string[],
+		_sql: string,
 	): ColumnType[] {
-		const columnCount = columnNames.length;
-		const types = new Array(columnCount) as ColumnType[];
-
-		for (let i = 0; i < columnCount; i++) {
-			const name = columnNames[i];
-
-			let hasArray = false;
-			let hasOtherObjects = false;
-			let arrayElementType: ColumnType | null = null;
-
-			for (let r = 0; r < result.length; r++) {
-				const v = result[r][name];
-				if (v === null || v === undefined) continue;
-
-				if (Array.isArray(v)) {
-					hasArray = true;
-					if (v.length > 0 && arrayElementType === null) {
-						arrayElementType = this.inferColumnTypeFast(v[0]);
-					}
-					break;
-				} else if (
-					typeof v === "object" &&
-					!(v instanceof Date) &&
-					!Buffer.isBuffer(v)
-				) {
-					hasOtherObjects = true;
-				}
-			}
-
-			if (hasArray && arrayElementType !== null) {
-				// Map base type to array type
-				const arrayTypeMap: Record<number, ColumnType> = {
-					[ColumnTypeEnum.Int32]: ColumnTypeEnum.Int32Array,
-					[ColumnTypeEnum.Int64]: ColumnTypeEnum.Int64Array,
-					[ColumnTypeEnum.Float]: ColumnTypeEnum.FloatArray,
-					[ColumnTypeEnum.Double]: ColumnTypeEnum.DoubleArray,
-					[ColumnTypeEnum.Numeric]: ColumnTypeEnum.NumericArray,
-					[ColumnTypeEnum.Boolean]: ColumnTypeEnum.BooleanArray,
-					[ColumnTypeEnum.Character]: ColumnTypeEnum.CharacterArray,
-					[ColumnTypeEnum.Text]: ColumnTypeEnum.TextArray,
-					[ColumnTypeEnum.Date]: ColumnTypeEnum.DateArray,
-					[ColumnTypeEnum.Time]: ColumnTypeEnum.TimeArray,
-					[ColumnTypeEnum.DateTime]: ColumnTypeEnum.DateTimeArray,
-					[ColumnTypeEnum.Json]: ColumnTypeEnum.JsonArray,
-					[ColumnTypeEnum.Enum]: ColumnTypeEnum.EnumArray,
-					[ColumnTypeEnum.Bytes]: ColumnTypeEnum.BytesArray,
-					[ColumnTypeEnum.Uuid]: ColumnTypeEnum.UuidArray,
-				};
-
-				types[i] = arrayTypeMap[arrayElementType] ?? ColumnTypeEnum.JsonArray;
-				
-			} else if (hasArray) {
-				// Empty array or couldn't determine type
-				types[i] = ColumnTypeEnum.JsonArray;
-			} else if (hasOtherObjects) {
-				types[i] = ColumnTypeEnum.Json;
-			} else {
-				types[i] = this.inferColumnTypeFast(result[0]?.[name]);
-			}
-		}
-
-		return types;
-	}
-
-	protected isJsonishString(s: string): boolean {
-		if (!s) return false;
-		const t = s.trim();
-		if (!t) return false;
-		if (t.startsWith("{") || t.startsWith("[")) return true;
-		if (t.startsWith('"') && t.endsWith('"')) return true;
-		return false;
-	}
-
-	protected ensureJsonString(value: unknown): string {
-		if (value === null || value === undefined) return "null";
-		const t = typeof value;
-		if (t === "string") {
-			const s = value as string;
-			return this.isJsonishString(s) ? s : JSON.stringify(s);
-		}
-		if (t === "number" || t === "boolean") return JSON.stringify(value);
-		if (value instanceof Date) return JSON.stringify(value.toISOString());
-		if (Buffer.isBuffer(value))
-			return JSON.stringify(Array.from(value as unknown as Uint8Array));
-		try {
-			return JSON.stringify(value);
-		} catch {
-			return "null";
-		}
+		return inferColumnTypes(result, columnNames);
 	}
 
 	protected executeTransactionQueryOptimized(
@@ -650,122 +632,88 @@ abstract class BaseBunDriverAdapter implements SqlDriverAdapter {
 			return tx(strings);
 		}
 
-		if (this.hasParameterPlaceholders(sql)) {
-			const templateSql = this.convertParameterPlaceholders(sql, args.length);
-			const parts = templateSql.split(/\$\{\d+\}/);
-			const strings = this.createTemplateStrings(parts);
-			const re = /\$\{(\d+)\}/g;
-			const argOrder: number[] = [];
-			let m: RegExpExecArray | null = re.exec(templateSql);
-			while (m !== null) {
-				argOrder.push(Number(m[1]));
-				m = re.exec(templateSql);
-			}
-			const expanded = argOrder.length ? argOrder.map((i) => args[i]) : args;
-			const finalArgs =
-				this.provider === "postgres"
-					? this.coerceArgsForPostgres(expanded)
-					: expanded;
-			return tx(strings, ...finalArgs);
-		}
-
-		// Fallback: Transaction query has args but no recognized placeholders
-		// Apply array coercion for Postgres compatibility
-		const coercedArgs =
-			this.provider === "postgres" ? this.coerceArgsForPostgres(args) : args;
-		const strings = this.createTemplateStrings([sql]);
-		return tx(strings, ...coercedArgs);
+		const { strings, argOrder } = this.templates.compile(sql, args.length);
+		return tx(strings, ...argOrder.map((i) => args[i]));
 	}
+}
 
-	protected inferColumnTypeFast(value: unknown): ColumnType {
-		if (value === null || value === undefined) {
-			return ColumnTypeEnum.UnknownNumber;
-		}
-
-		const valueType = typeof value;
-
-		switch (valueType) {
-			case "boolean":
-				return ColumnTypeEnum.Boolean;
-			case "number":
-				return Number.isInteger(value)
-					? ColumnTypeEnum.Int32
-					: ColumnTypeEnum.Double;
-			case "bigint":
-				return ColumnTypeEnum.Int64;
-			case "string":
-				if (DATETIME_REGEX.test(value as string)) {
-					return ColumnTypeEnum.DateTime;
-				}
-				if (DATE_REGEX.test(value as string)) {
-					return ColumnTypeEnum.Date;
-				}
-				if (UUID_REGEX.test(value as string)) {
-					return ColumnTypeEnum.Uuid;
-				}
-				return ColumnTypeEnum.Text;
-			case "object":
-				if (value instanceof Date) {
-					return ColumnTypeEnum.DateTime;
-				}
-				if (Buffer.isBuffer(value)) {
-					return ColumnTypeEnum.Bytes;
-				}
-				return ColumnTypeEnum.Json;
-			default:
-				return ColumnTypeEnum.UnknownNumber;
-		}
+// PostgreSQL Adapter
+class BunPostgresDriverAdapter extends BaseBunDriverAdapter {
+	readonly provider = "postgres" as const;
+	readonly adapterName = "bun-postgres-adapter";
+	private readonly describer: PgResultDescriber;
+
+	constructor(
+		connectionString: string,
+		poolSettings: Readonly<BunPoolSettings>,
+		replicas: ReplicaRouter | null,
+		ssl: BunSslConfig | undefined,
+		private readonly session: PgSessionOptions = { pgbouncer: false },
+	) {
+		super(connectionString, poolSettings, replicas, ssl);
+		this.describer = new PgResultDescriber(poolSettings.templateCacheSize);
 	}
 
-	protected serializeValueFast(value: unknown): unknown {
-		if (value === null || value === undefined) {
-			return value;
-		}
-
-		const valueType = typeof value;
-
-		if (
-			valueType === "string" ||
-			valueType === "number" ||
-			valueType === "boolean"
-		) {
-			return value;
-		}
-
-		if (valueType === "bigint") {
-			return value.toString();
-		}
+	getConnectionInfo(): ConnectionInfo {
+		return postgresConnectionInfo(this.session.schema);
+	}
 
-		if (value instanceof Date) {
-			return value.toISOString();
-		}
+	protected assertStatementSupported(sql: string): void {
+		if (this.session.pgbouncer) assertPgBouncerSafe(sql);
+	}
 
-		if (Buffer.isBuffer(value)) {
-			return value;
+	// Outside pgbouncer mode the schema is a startup parameter of every
+	// connection, reserved ones included; a pooler only allows it per transaction
+	protected transactionStartStatements(
+		isolationLevel?: IsolationLevel,
+		options?: BunTransactionOptions,
+	): string[] {
+		const statements = super.transactionStartStatements(isolationLevel, options);
+		const { pgbouncer, schema } = this.session;
+		if (pgbouncer && schema !== undefined) {
+			statements.push(`SET LOCAL search_path TO ${quoteIdentifier(schema)}`);
 		}
+		return statements;
+	}
 
-		// CRITICAL: If value is an array, return it as-is
-		// Prisma expects arrays for array-typed columns (text[], int[], etc.)
-		// Converting to JSON string breaks Prisma's .map() calls
-		if (Array.isArray(value)) {
-			return value;
-		}
+	protected serializeColumnValue(type: ColumnType, value: unknown): unknown {
+		return super.serializeColumnValue(type, serializePgValue(type, value));
+	}
 
-		// For JSON/object-like values, return a valid JSON string to satisfy
-		// Prisma driver-adapter-utils which parses JSON columns from strings
-		try {
-			return JSON.stringify(value);
-		} catch {
-			// Fallback to string coercion if JSON.stringify fails for any reason
-			return String(value);
+	// Bun.sql drops the row description, so statements are described once
+	// more on the server: on a connection of their own, or inside the
+	// transaction that ran them
+	protected describeResult(
+		sql: string,
+		args: unknown[],
+		result: BunSqlResult,
+		transaction: BunSqlTransaction | null,
+	): Promise<ResultDescription | null> {
+		const emptyResult = result.length === 0;
+		if (transaction) {
+			return this.describer.describe(sql, args, emptyResult, "savepoint", (use) =>
+				use((statement, values = []) =>
+					this.executeTransactionQueryOptimized(transaction, statement, values),
+				),
+			);
 		}
+		const scope = this.session.pgbouncer ? "transaction" : "session";
+		return this.describer.describe(sql, args, emptyResult, scope, async (use) => {
+			const reserved = await this.reserveConnection(await this.getConnection());
+			try {
+				return await use((statement, values = []) =>
+					this.executeQueryOptimized(reserved, statement, values),
+				);
+			} finally {
+				await this.releaseReserved(reserved, () => {});
+			}
+		});
 	}
-}
 
-// PostgreSQL Adapter
-class BunPostgresDriverAdapter extends BaseBunDriverAdapter {
-	readonly provider = "postgres" as const;
-	readonly adapterName = "bun-postgres-adapter";
+	protected forgetDescriptions(sql?: string): void {
+		if (sql === undefined) this.describer.clear();
+		else this.describer.invalidate(sql);
+	}
 
 	protected async createConnection(): Promise<BunSqlConnection> {
 		const BunSQL = (globalThis as any).Bun?.sql;
@@ -775,17 +723,22 @@ class BunPostgresDriverAdapter extends BaseBunDriverAdapter {
 			);
 		}
 
-		const candidates = this.buildPgConnectionCandidates(this.connectionString);
+		const { url, tls } = await resolveTls(this.connectionString, this.ssl);
+		const candidates = pgConnectionCandidates(url);
 		let lastErr: any = null;
 		for (const candidate of candidates) {
 			try {
-				const conn = new BunSQL(candidate) as BunSqlConnection;
+				const conn = new BunSQL({
+					url: candidate,
+					...toBunSqlPoolOptions(this.poolSettings),
+					...(tls !== undefined && { tls }),
+				}) as BunSqlConnection;
 				try {
 					const strings = this.createTemplateStrings(["SELECT 1"]);
 					await conn(strings);
 					return conn;
 				} catch (warmErr: any) {
-					if (this.isPgAuthFailed(warmErr)) {
+					if (isPgAuthFailed(warmErr)) {
 						lastErr = warmErr;
 						continue;
 					}
@@ -808,95 +761,6 @@ class BunPostgresDriverAdapter extends BaseBunDriverAdapter {
 		}
 		throw lastErr ?? new Error("Failed to establish Postgres connection");
 	}
-
-	private isPgAuthFailed(err: any): boolean {
-		const msg = String(err?.message ?? "").toLowerCase();
-		return (
-			msg.includes("password authentication failed") || msg.includes("28p01")
-		);
-	}
-
-	private buildPgConnectionCandidates(input: string): string[] {
-		const raw = String(input ?? "").trim();
-		const normalized = this.normalizeConnectionString(raw);
-		const out: string[] = [];
-		if (normalized) out.push(normalized);
-		if (raw && raw !== normalized) out.push(raw);
-		const qpVariant = this.toPgPasswordQueryVariant(raw);
-		if (qpVariant && !out.includes(qpVariant)) out.push(qpVariant);
-		return out;
-	}
-
-	private toPgPasswordQueryVariant(raw: string): string | null {
-		const m = raw.match(/^([a-zA-Z][a-zA-Z0-9+.-]*):\/\//);
-		if (!m) return null;
-		const scheme = m[1];
-		if (!["postgres", "postgresql"].includes(scheme)) return null;
-		const start = m[0].length;
-		const rest = raw.slice(start);
-		let boundary = rest.length;
-		for (const sep of ["/", "?", "#"]) {
-			const idx = rest.indexOf(sep);
-			if (idx !== -1 && idx < boundary) boundary = idx;
-		}
-		const authority = rest.slice(0, boundary);
-		const tail = rest.slice(boundary);
-		const at = authority.lastIndexOf("@");
-		if (at === -1) return null;
-		const userinfo = authority.slice(0, at);
-		const hostport = authority.slice(at + 1);
-		const colon = userinfo.indexOf(":");
-		const userRaw = colon === -1 ? userinfo : userinfo.slice(0, colon);
-		const passRaw = colon === -1 ? "" : userinfo.slice(colon + 1);
-		if (!passRaw) return null;
-		const safeDecode = (s: string) => {
-			try {
-				return decodeURIComponent(s);
-			} catch {
-				return s;
-			}
-		};
-		const username = encodeURIComponent(safeDecode(userRaw));
-		const passwordRaw = safeDecode(passRaw);
-		let path = tail;
-		let existingQuery = "";
-		const qIdx = tail.indexOf("?");
-		if (qIdx !== -1) {
-			path = tail.slice(0, qIdx);
-			existingQuery = tail.slice(qIdx + 1);
-		}
-		const join = existingQuery ? "&" : "?";
-		const finalQuery = `${existingQuery ? "?" + existingQuery : ""}${join}password=${encodeURIComponent(passwordRaw)}`;
-		return `${scheme}://${username}@${hostport}${path}${finalQuery}`;
-	}
-
-	protected hasParameterPlaceholders(sql: string): boolean {
-		// Postgres uses $n placeholders. Do not treat '?' as a placeholder to avoid
-		// collisions with JSONB operators like '?' and '?|'.
-		return sql.includes("$1");
-	}
-
-	protected convertParameterPlaceholders(
-		sql: string,
-		paramCount: number,
-	): string {
-		let templateSql = sql;
-		if (sql.includes("$1")) {
-			// Replace from highest index to lowest to avoid $1 matching in $10, $11, ...
-			for (let n = paramCount; n >= 1; n--) {
-				const idx = n - 1;
-				const marker = "${" + idx + "}";
-				templateSql = templateSql.replaceAll(`$${n}`, marker);
-			}
-			return templateSql;
-		}
-		// Fallback: convert '?' placeholders sequentially
-		for (let i = 0; i < paramCount; i++) {
-			const marker = "${" + i + "}";
-			templateSql = templateSql.replace("?", marker);
-		}
-		return templateSql;
-	}
 }
 
 // MySQL Adapter
@@ -912,10 +776,15 @@ class BunMySQLDriverAdapter extends BaseBunDriverAdapter {
 			);
 		}
 
-		const normalized = this.normalizeConnectionString(this.connectionString);
+		const { url, tls } = await resolveTls(this.connectionString, this.ssl);
+		const normalized = normalizeConnectionString(url);
 		let connection: BunSqlConnection;
 		try {
-			connection = new BunSQL(normalized) as BunSqlConnection;
+			connection = new BunSQL({
+				url: normalized,
+				...toBunSqlPoolOptions(this.poolSettings),
+				...(tls !== undefined && { tls }),
+			}) as BunSqlConnection;
 		} catch (e: any) {
 			if (
 				e instanceof URIError ||
@@ -928,40 +797,77 @@ class BunMySQLDriverAdapter extends BaseBunDriverAdapter {
 			throw e;
 		}
 
-		// Warm up the connection
-		try {
-			const strings = this.createTemplateStrings(["SELECT 1"]);
-			await connection(strings);
-		} catch (error) {
-			// Ignore warm-up errors
-		}
-
+		await this.warmUp(connection, "SELECT VERSION() AS version");
 		return connection;
 	}
 
-	protected hasParameterPlaceholders(sql: string): boolean {
-		return sql.includes("?");
-	}
-
-	protected convertParameterPlaceholders(
-		sql: string,
-		paramCount: number,
-	): string {
-		let templateSql = sql;
-		for (let i = 0; i < paramCount; i++) {
-			const marker = "${" + i + "}";
-			templateSql = templateSql.replace("?", marker);
-		}
-		return templateSql;
+	getConnectionInfo(): ConnectionInfo {
+		return mysqlConnectionInfo(
+			this.serverVersion,
+			databaseName(this.connectionString),
+		);
 	}
 }
 
 // SQLite Adapter
+// How the SQLite adapter opens its connection
+interface SQLiteOpenOptions {
+	readonly?: boolean;
+	create?: boolean;
+	pragmas: string[];
+	// Pragmas of the read-only connection that serves reads outside
+	// transactions under the write scheduler; null sends reads to the writer
+	readerPragmas: string[] | null;
+}
+
 class BunSQLiteDriverAdapter extends BaseBunDriverAdapter {
 	readonly provider = "sqlite" as const;
 	readonly adapterName = "bun-sqlite-adapter";
 
+	private reader: BunSqlConnection | null = null;
+	private readerOpening: Promise<BunSqlConnection> | null = null;
+	private declaredTypes: SQLiteDeclaredTypes | null = null;
+
+	constructor(
+		connectionString: string,
+		poolSettings: Readonly<BunPoolSettings>,
+		private readonly open: SQLiteOpenOptions = {
+			pragmas: [],
+			readerPragmas: null,
+		},
+	) {
+		super(connectionString, poolSettings);
+	}
+
+	protected transactionStartStatements(
+		isolationLevel?: IsolationLevel,
+		options?: BunTransactionOptions,
+	): string[] {
+		return transactionStartStatements(
+			this.provider,
+			isolationLevel,
+			options,
+			this.open.readonly,
+		);
+	}
+
 	protected async createConnection(): Promise<BunSqlConnection> {
+		const connection = await this.openDatabase(
+			{ readonly: this.open.readonly, create: this.open.create },
+			this.open.pragmas,
+		);
+		await this.warmUp(connection, "SELECT sqlite_version() AS version");
+		this.declaredTypes ??= await SQLiteDeclaredTypes.open(
+			this.connectionString,
+			this.poolSettings.templateCacheSize,
+		);
+		return connection;
+	}
+
+	private async openDatabase(
+		mode: { readonly?: boolean; create?: boolean },
+		pragmas: string[],
+	): Promise<BunSqlConnection> {
 		const BunSQL = (globalThis as any).Bun?.sql;
 		if (!BunSQL) {
 			throw new Error(
@@ -969,10 +875,17 @@ class BunSQLiteDriverAdapter extends BaseBunDriverAdapter {
 			);
 		}
 
-		const normalized = this.normalizeConnectionString(this.connectionString);
+		const normalized = normalizeConnectionString(this.connectionString);
 		let connection: BunSqlConnection;
 		try {
-			connection = new BunSQL(normalized) as BunSqlConnection;
+			// safeIntegers keeps BIGINT values exact instead of lossy doubles.
+			// Bun.sql only reads options when they come in a single object.
+			connection = new BunSQL({
+				url: normalized,
+				safeIntegers: true,
+				...(mode.readonly !== undefined && { readonly: mode.readonly }),
+				...(mode.create !== undefined && { create: mode.create }),
+			}) as BunSqlConnection;
 		} catch (e: any) {
 			if (
 				e instanceof URIError ||
@@ -985,31 +898,105 @@ class BunSQLiteDriverAdapter extends BaseBunDriverAdapter {
 			throw e;
 		}
 
-		// Warm up the connection
 		try {
-			const strings = this.createTemplateStrings(["SELECT 1"]);
-			await connection(strings);
+			for (const pragma of pragmas) {
+				await connection(this.createTemplateStrings([pragma]));
+			}
 		} catch (error) {
-			// Ignore warm-up errors
+			await connection.end().catch(() => {});
+			throw error;
 		}
-
 		return connection;
 	}
 
-	protected hasParameterPlaceholders(sql: string): boolean {
-		return sql.includes("?");
+	private async getReader(): Promise<BunSqlConnection> {
+		if (this.reader) {
+			return this.reader;
+		}
+		// The writer creates the database and switches it to WAL first
+		this.readerOpening ??= this.getConnection()
+			.then(() =>
+				this.openDatabase({ readonly: true, create: false }, this.open.readerPragmas!),
+			)
+			.finally(() => {
+				this.readerOpening = null;
+			});
+		this.reader = await this.readerOpening;
+		return this.reader;
 	}
 
-	protected convertParameterPlaceholders(
-		sql: string,
-		paramCount: number,
-	): string {
-		let templateSql = sql;
-		for (let i = 0; i < paramCount; i++) {
-			const marker = "${" + i + "}";
-			templateSql = templateSql.replace("?", marker);
+	// Under the write scheduler, reads outside transactions skip the writer's
+	// queue: in WAL mode they see the last commit while a write is running
+	async queryRaw(query: SqlQuery): Promise<SqlResultSet> {
+		if (!this.open.readerPragmas || !isReadOnlyQuery(query.sql)) {
+			return super.queryRaw(query);
+		}
+		try {
+			const reader = await this.getReader();
+			const result = await this.executeQueryOptimized(
+				reader,
+				this.bindQuerySql(query),
+				this.bindQueryArgs(query),
+			);
+			return this.toResultSet(result, query.sql);
+		} catch (error) {
+			throw this.convertError(error);
 		}
-		return templateSql;
+	}
+
+	// Writes, scripts and transactions queue for the single writer connection
+	writeQueueStats(): BunSQLiteWriteQueueStats {
+		const { inUse, queueDepth, poolTimeout, queueLimit } = this.slots.stats();
+		const waits = this.slots.waitStats();
+		return {
+			active: inUse > 0,
+			queued: queueDepth,
+			timeout: poolTimeout,
+			queueLimit,
+			...waits,
+			averageWaitMs: waits.acquired ? waits.totalWaitMs / waits.acquired : 0,
+		};
+	}
+
+	getConnectionInfo(): ConnectionInfo {
+		return sqliteConnectionInfo(this.serverVersion);
+	}
+
+	// Bun's SQLite client is a single connection without reserve(). The pool
+	// has one slot, so holding it already gives the transaction the connection.
+	protected async reserveConnection(
+		connection: BunSqlConnection,
+	): Promise<BunReservedSqlConnection> {
+		const reserved = ((strings: TemplateStringsArray, ...values: any[]) =>
+			connection(strings, ...values)) as BunReservedSqlConnection;
+		reserved.release = () => {};
+		return reserved;
+	}
+
+	// Bun.sql reports no declared types, so they are read separately; columns
+	// without one (expressions, in-memory databases) are typed by their values
+	protected determineColumnTypes(
+		result: any[],
+		columnNames: string[],
+		sql: string,
+	): ColumnType[] {
+		const declared = this.declaredTypes?.columnTypes(sql);
+		return columnNames.map(
+			(name) =>
+				declared?.get(name) ?? inferSQLiteValueType(firstNonNull(result, name)),
+		);
+	}
+
+	protected serializeColumnValue(type: ColumnType, value: unknown): unknown {
+		return super.serializeColumnValue(type, serializeSQLiteValue(type, value));
+	}
+
+	async dispose(): Promise<void> {
+		await super.dispose();
+		await this.reader?.end();
+		this.reader = null;
+		this.declaredTypes?.close();
+		this.declaredTypes = null;
 	}
 }
 
@@ -1024,15 +1011,66 @@ export class BunPostgresAdapter {
 	}
 
 	async connect(): Promise<SqlDriverAdapter> {
-		const connectionString =
-			typeof this.config === "string"
-				? this.config
-				: this.config.connectionString;
+		const parsed = this.parsedConnectionString;
+		reportConnectionWarnings(parsed, this.config);
+
+		return new BunPostgresDriverAdapter(
+			parsed.url,
+			this.poolSettings,
+			this.createReplicaRouter(),
+			typeof this.config === "string" ? undefined : this.config.ssl,
+			parsed,
+		);
+	}
+
+	private get parsedConnectionString(): ParsedConnectionString {
+		return typeof this.config === "string"
+			? parseConnectionString(this.provider, this.config)
+			: parseConnectionString(this.provider, this.config.connectionString, {
+					pgbouncer: this.config.pgbouncer,
+					schema: this.config.schema,
+				});
+	}
 
-		const maxConnections =
-			typeof this.config === "string" ? 5 : this.config.maxConnections || 5;
+	private createReplicaRouter(): ReplicaRouter | null {
+		if (typeof this.config === "string" || !this.config.replicas?.length) {
+			return null;
+		}
+		const { replicas, replicaOptions, ssl, pgbouncer, schema } = this.config;
+		// A replica URL's own connection_limit or pool_timeout wins over the
+		// primary's settings
+		const primaryPool = this.poolSettings;
+		return new ReplicaRouter(
+			replicas.map((url) => {
+				const parsed = parseConnectionString(this.provider, url, {
+					pgbouncer,
+					schema,
+				});
+				reportConnectionWarnings(parsed, this.config);
+				return new BunPostgresDriverAdapter(
+					parsed.url,
+					resolvePoolSettings(mergePoolOptions(primaryPool, parsed.pool)),
+					null,
+					ssl,
+					parsed,
+				);
+			}),
+			replicaOptions,
+		);
+	}
 
-		return new BunPostgresDriverAdapter(connectionString, maxConnections);
+	// Pool settings the Bun.sql client is created with. Explicit options win
+	// over connection string parameters such as connection_limit.
+	get poolSettings(): Readonly<BunPoolSettings> {
+		const parsed = this.parsedConnectionString;
+		const options = mergePoolOptions(
+			parsed.pool,
+			typeof this.config === "string" ? {} : this.config,
+		);
+		if (parsed.pgbouncer && options.prepare) {
+			throw new Error("prepare: true cannot be combined with pgbouncer mode");
+		}
+		return resolvePoolSettings(options);
 	}
 
 	async dispose(): Promise<void> {}
@@ -1048,15 +1086,59 @@ export class BunMySQLAdapter {
 	}
 
 	async connect(): Promise<SqlDriverAdapter> {
-		const connectionString =
+		const parsed = this.parsedConnectionString;
+		reportConnectionWarnings(parsed, this.config);
+
+		const driver = new BunMySQLDriverAdapter(
+			parsed.url,
+			this.poolSettings,
+			this.createReplicaRouter(),
+			typeof this.config === "string" ? undefined : this.config.ssl,
+		);
+		// Relation join support depends on the server version
+		await driver.loadServerVersion();
+		return driver;
+	}
+
+	private get parsedConnectionString(): ParsedConnectionString {
+		return parseConnectionString(
+			this.provider,
 			typeof this.config === "string"
 				? this.config
-				: this.config.connectionString;
+				: this.config.connectionString,
+		);
+	}
 
-		const maxConnections =
-			typeof this.config === "string" ? 5 : this.config.maxConnections || 5;
+	private createReplicaRouter(): ReplicaRouter | null {
+		if (typeof this.config === "string" || !this.config.replicas?.length) {
+			return null;
+		}
+		const { replicas, replicaOptions, ssl } = this.config;
+		const primaryPool = this.poolSettings;
+		return new ReplicaRouter(
+			replicas.map((url) => {
+				const parsed = parseConnectionString(this.provider, url);
+				reportConnectionWarnings(parsed, this.config);
+				return new BunMySQLDriverAdapter(
+					parsed.url,
+					resolvePoolSettings(mergePoolOptions(primaryPool, parsed.pool)),
+					null,
+					ssl,
+				);
+			}),
+			replicaOptions,
+		);
+	}
 
-		return new BunMySQLDriverAdapter(connectionString, maxConnections);
+	// Pool settings the Bun.sql client is created with. Explicit options win
+	// over connection string parameters such as connection_limit.
+	get poolSettings(): Readonly<BunPoolSettings> {
+		return resolvePoolSettings(
+			mergePoolOptions(
+				this.parsedConnectionString.pool,
+				typeof this.config === "string" ? {} : this.config,
+			),
+		);
 	}
 
 	async dispose(): Promise<void> {}
@@ -1072,17 +1154,59 @@ export class BunSQLiteAdapter {
 	}
 
 	async connect(): Promise<SqlDriverAdapter> {
-		const connectionString =
+		const parsed = this.parsedConnectionString;
+		reportConnectionWarnings(parsed, this.config);
+
+		const config: Partial<BunSQLiteConfig> =
+			typeof this.config === "string" ? {} : this.config;
+		const readonly = config.readonly ?? /[?&]mode=ro(?:&|$)/.test(parsed.url);
+		const pragmas = { busyTimeout: parsed.busyTimeout, ...config.pragmas };
+		// A read-only connection can't see another connection's in-memory
+		// database, and only WAL lets it read while the writer writes
+		const separateReader =
+			this.writeScheduler !== null &&
+			!readonly &&
+			!/:memory:|[?&]mode=memory(?:&|$)/.test(parsed.url) &&
+			(pragmas.journalMode ?? DEFAULT_SQLITE_PRAGMAS.journalMode) === "WAL";
+		const driver = new BunSQLiteDriverAdapter(parsed.url, this.poolSettings, {
+			readonly: readonly || config.readonly,
+			create: config.create,
+			pragmas: sqlitePragmaStatements(pragmas, readonly),
+			readerPragmas: separateReader ? sqlitePragmaStatements(pragmas, true) : null,
+		});
+		// The bind value limit depends on the SQLite version
+		await driver.loadServerVersion();
+		return driver;
+	}
+
+	private get parsedConnectionString(): ParsedConnectionString {
+		return parseConnectionString(
+			this.provider,
 			typeof this.config === "string"
 				? this.config
-				: `file:${this.config.filename}`;
+				: `file:${this.config.filename}`,
+		);
+	}
 
-		const maxConnections =
-			typeof this.config === "string"
-				? 1 // SQLite typically uses single connection
-				: this.config.maxConnections || 1;
+	private get writeScheduler(): BunSQLiteWriteSchedulerOptions | null {
+		const option = typeof this.config === "string" ? false : this.config.writeScheduler;
+		return option === true ? {} : option || null;
+	}
 
-		return new BunSQLiteDriverAdapter(connectionString, maxConnections);
+	// SQLite writes on a single connection regardless of maxConnections
+	get poolSettings(): Readonly<BunPoolSettings> {
+		const { poolTimeout, queueLimit, templateCacheSize } = mergePoolOptions(
+			this.parsedConnectionString.pool,
+			typeof this.config === "string" ? {} : this.config,
+		);
+		return resolvePoolSettings(
+			{
+				poolTimeout: this.writeScheduler?.timeout ?? poolTimeout,
+				queueLimit: this.writeScheduler?.queueLimit ?? queueLimit,
+				templateCacheSize,
+			},
+			SQLITE_POOL_DEFAULTS,
+		);
 	}
 
 	async dispose(): Promise<void> {}
@@ -1097,3 +1221,16 @@ export {
 	BunPostgresAdapter as BunPostgresOptimized,
 	OptimizedBunPostgresDriverAdapter,
 } from "./optimized-index.js";
+export type { BunMySQLConfig, BunPostgresConfig } from "./adapter-config.js";
+export type { BunAdapterLogger } from "./connection-string.js";
+export { PoolTimeoutError, ScriptError } from "./errors.js";
+export type { PoolDiagnostics } from "./errors.js";
+export type { BunPoolOptions, BunPoolSettings } from "./pool-settings.js";
+export { withPrimary, withReplicaSession } from "./replicas.js";
+export type { BunReplicaOptions } from "./replicas.js";
+export type { BunTransaction } from "./savepoints.js";
+export type { BunScriptOptions } from "./script.js";
+export type { TemplateCacheStats } from "./template-cache.js";
+export type { BunSQLitePragmas } from "./sqlite-pragmas.js";
+export type { BunSslConfig } from "./tls.js";
+export type { BunTransactionOptions } from "./transaction-start.js";
@@ -2,30 +2,64 @@ import {
 	SqlDriverAdapter,
 	SqlQuery,
 	SqlResultSet,
-	Transaction,
 	ColumnTypeEnum,
 	ColumnType,
+	ConnectionInfo,
 	IsolationLevel,
 } from "@prisma/driver-adapter-utils";
-
-export interface BunPostgresConfig {
-	connectionString: string;
-	maxConnections?: number;
-	idleTimeout?: number;
-	ssl?:
-		| boolean
-		| {
-				rejectUnauthorized?: boolean;
-				ca?: string;
-				cert?: string;
-				key?: string;
-		  };
-}
+import type { BunMySQLConfig, BunPostgresConfig } from "./adapter-config.js";
+import { bindArgs, castPgJsonPlaceholders } from "./arg-binding.js";
+import {
+	databaseName,
+	mysqlConnectionInfo,
+	postgresConnectionInfo,
+} from "./connection-info.js";
+import { PoolSlots, ReleaseSlot } from "./connection-pool.js";
+import {
+	ParsedConnectionString,
+	PgSessionOptions,
+	parseConnectionString,
+	quoteIdentifier,
+	reportConnectionWarnings,
+} from "./connection-string.js";
+import {
+	isPgAuthFailed,
+	normalizeConnectionString,
+	pgConnectionCandidates,
+} from "./credentials.js";
+import { convertDriverError } from "./errors.js";
+import { assertPgBouncerSafe } from "./pgbouncer.js";
+import {
+	BunPoolOptions,
+	BunPoolSettings,
+	DEFAULT_POOL_SETTINGS,
+	mergePoolOptions,
+	resolvePoolSettings,
+	toBunSqlPoolOptions,
+} from "./pool-settings.js";
+import { ReplicaRouter, isReadOnlyQuery } from "./replicas.js";
+import {
+	ResultDescription,
+	applyDescribedTypes,
+	inferColumnTypes,
+	serializeResultValue,
+} from "./result-values.js";
+import { BunTransaction, SavepointStack } from "./savepoints.js";
+import { BunScriptOptions, runScript, splitScript } from "./script.js";
+import { TemplateCache, TemplateCacheStats } from "./template-cache.js";
+import { BunSslConfig, resolveTls } from "./tls.js";
+import {
+	BunTransactionOptions,
+	transactionStartStatements,
+} from "./transaction-start.js";
+import { affectedRowCount, lastInsertId } from "./write-result.js";
+import { PgResultDescriber } from "./postgres-describe.js";
+import { serializePgValue } from "./postgres-types.js";
 
 interface BunSqlResult extends Array<any> {
 	count: number;
 	command: string;
-	lastInsertRowid: number | null;
+	lastInsertRowid: number | bigint | null;
 	affectedRows: number | null;
 }
 
@@ -44,333 +78,290 @@ interface BunSqlTransaction {
 	rollback(): Promise<void>;
 }
 
+type BunSqlRunner = (
+	strings: TemplateStringsArray,
+	...values: any[]
+) => Promise<BunSqlResult>;
+
 interface BunReservedSqlConnection {
 	(strings: TemplateStringsArray, ...values: any[]): Promise<BunSqlResult>;
 	release?: () => Promise<void> | void;
 }
 
-// Cache for template strings to avoid repeated parsing
-const templateCache = new Map<
-	string,
-	{ strings: TemplateStringsArray; paramCount: number; argOrder: number[] }
->();
-
-// Pre-compiled column type matchers for better performance
-const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
-const DATETIME_REGEX = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}/;
-const UUID_REGEX =
-	/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
-
-export class OptimizedBunPostgresDriverAdapter implements SqlDriverAdapter {
-	readonly provider = "postgres" as const;
-	readonly adapterName = "bun-postgres-adapter-optimized";
-	private connectionString: string;
-	private connections: BunSqlConnection[] = [];
-	private availableConnections: BunSqlConnection[] = [];
-	private waitQueue: Array<{
-		resolve: (conn: BunSqlConnection) => void;
-		reject: (err: Error) => void;
-	}> = [];
-	private maxConnections: number;
-
-	constructor(connectionString: string, maxConnections: number = 20) {
+// The optimized bundle defaults to a larger pool for high-concurrency apps
+const OPTIMIZED_POOL_DEFAULTS: Readonly<BunPoolSettings> = Object.freeze({
+	...DEFAULT_POOL_SETTINGS,
+	maxConnections: 20,
+});
+
+// Shared by the Postgres and MySQL adapters: one pooled Bun.sql client per
+// adapter, an acquire queue in front of it and a per-adapter template cache
+abstract class OptimizedBunDriverAdapter implements SqlDriverAdapter {
+	abstract readonly provider: "postgres" | "mysql";
+	abstract readonly adapterName: string;
+	protected connectionString: string;
+	// One Bun.sql client: it is the pool, so `max` bounds physical connections
+	private pool: BunSqlConnection | null = null;
+	private connecting: Promise<BunSqlConnection> | null = null;
+	readonly poolSettings: Readonly<BunPoolSettings>;
+	private slots: PoolSlots;
+	private templateCache: TemplateCache | null = null;
+	private leaseSlots = new WeakMap<BunReservedSqlConnection, ReleaseSlot>();
+
+	protected replicas: ReplicaRouter | null;
+	protected ssl: BunSslConfig | undefined;
+
+	constructor(
+		connectionString: string,
+		pool: BunPoolOptions | number = {},
+		replicas: ReplicaRouter | null = null,
+		ssl?: BunSslConfig,
+	) {
 		this.connectionString = connectionString;
-		this.maxConnections = maxConnections;
+		this.replicas = replicas;
+		this.ssl = ssl;
+		this.poolSettings = resolvePoolSettings(
+			typeof pool === "number" ? { maxConnections: pool } : pool,
+			OPTIMIZED_POOL_DEFAULTS,
+		);
+		this.slots = new PoolSlots(this.poolSettings);
 	}
 
-	private async getConnection(): Promise<BunSqlConnection> {
-		// Try to get an available connection first
-		if (this.availableConnections.length > 0) {
-			return this.availableConnections.pop()!;
+	private get templates(): TemplateCache {
+		if (!this.templateCache) {
+			this.templateCache = new TemplateCache(
+				this.provider,
+				this.poolSettings.templateCacheSize,
+			);
 		}
+		return this.templateCache;
+	}
 
-		// If we haven't reached the max, create a new connection
-		if (this.connections.length < this.maxConnections) {
-			const connection = await this.createConnection();
-			this.connections.push(connection);
-			return connection;
-		}
+	protected abstract createConnection(): Promise<BunSqlConnection>;
 
-		// Wait for a connection to become available
-		return new Promise((resolve, reject) => {
-			this.waitQueue.push({ resolve, reject });
-		});
-	}
+	abstract getConnectionInfo(): ConnectionInfo;
+
+	// Prisma's representation of a value of a column of the given type
+	protected abstract serializeColumnValue(type: ColumnType, value: unknown): unknown;
 
-	private releaseConnection(connection: BunSqlConnection): void {
-		if (this.waitQueue.length > 0) {
-			const waiter = this.waitQueue.shift();
-			waiter?.resolve(connection);
-			return;
+	protected async getPool(): Promise<BunSqlConnection> {
+		if (this.pool) {
+			return this.pool;
 		}
-		this.availableConnections.push(connection);
+		// Concurrent first queries share the pool being created
+		if (!this.connecting) {
+			this.connecting = this.createConnection().finally(() => {
+				this.connecting = null;
+			});
+		}
+		this.pool = await this.connecting;
+		return this.pool;
 	}
 
-	private async createConnection(): Promise<BunSqlConnection> {
-		const BunSQL = (globalThis as any).Bun?.sql;
-		if (!BunSQL) {
-			throw new Error(
-				"Bun's native SQL client is not available. Make sure you're running with Bun 1.3+",
-			);
+	// Exclusive lease on one pooled connection (transactions, scripts)
+	private async lease(): Promise<BunReservedSqlConnection> {
+		const releaseSlot = await this.slots.acquire();
+		try {
+			const pool = await this.getPool();
+			const reserved = await pool.reserve();
+			this.leaseSlots.set(reserved, releaseSlot);
+			return reserved;
+		} catch (error) {
+			releaseSlot();
+			throw error;
 		}
+	}
 
-		const candidates = this.buildPgConnectionCandidates(this.connectionString);
-		let lastErr: any = null;
-		for (const candidate of candidates) {
-			try {
-				const conn = new BunSQL(candidate) as BunSqlConnection;
-				try {
-					const strings = this.createTemplateStrings(["SELECT 1"]);
-					await conn(strings);
-					return conn;
-				} catch (warmErr: any) {
-					if (this.isPgAuthFailed(warmErr)) {
-						lastErr = warmErr;
-						continue;
-					}
-					throw warmErr;
-				}
-			} catch (e: any) {
-				lastErr = e;
-				continue;
-			}
-		}
-		if (
-			lastErr &&
-			(lastErr instanceof URIError ||
-				(typeof lastErr?.message === "string" && /uri/i.test(lastErr.message)))
-		) {
-			throw new Error(
-				"Invalid DATABASE_URL/connectionString. Check URL shape; credentials are auto-encoded by the adapter.",
-			);
+	private async releaseLease(reserved: BunReservedSqlConnection): Promise<void> {
+		try {
+			await reserved.release?.();
+		} catch {
+			// ignore release errors
+		} finally {
+			this.leaseSlots.get(reserved)?.();
+			this.leaseSlots.delete(reserved);
 		}
-		throw lastErr ?? new Error("Failed to establish Postgres connection");
 	}
 
-	private isPgAuthFailed(err: any): boolean {
-		const msg = String(err?.message ?? "").toLowerCase();
-		return (
-			msg.includes("password authentication failed") || msg.includes("28p01")
-		);
+	async dispose(): Promise<void> {
+		this.slots.close();
+		this.slots = new PoolSlots(this.poolSettings);
+		await this.replicas?.dispose();
+		const pool = this.pool ?? (await this.connecting?.catch(() => null));
+		this.pool = null;
+		if (pool) {
+			await pool.end();
+		}
+		this.templates.clear();
+		this.forgetDescriptions();
 	}
 
-	private buildPgConnectionCandidates(input: string): string[] {
-		const raw = String(input ?? "").trim();
-		const norm = (() => {
-			if (!raw) return raw;
-
-			// Heuristic: if unencoded reserved characters appear in userinfo, avoid WHATWG parsing
-			const schemeMatch = raw.match(/^([a-zA-Z][a-zA-Z0-9+.-]*):\/\//);
-			const schemeFromRaw = schemeMatch?.[1];
-			const restFromRaw = schemeMatch ? raw.slice(schemeMatch[0].length) : "";
-			const atInRest = restFromRaw.lastIndexOf("@");
-			const userinfoCandidate =
-				atInRest !== -1 ? restFromRaw.slice(0, atInRest) : "";
-			const hasUnencodedReserved = /[/?#]/.test(userinfoCandidate);
-
-			if (!hasUnencodedReserved) {
-				try {
-					const u = new URL(raw);
-					const scheme = u.protocol.replace(":", "");
-					if (["postgres", "postgresql"].includes(scheme)) {
-						// Avoid double-encoding: decode valid %HH triplets first, then encode
-						const decodeTriplets = (s: string) =>
-							s.replace(/%[0-9a-fA-F]{2}/g, (m) => {
-								try {
-									return decodeURIComponent(m);
-								} catch {
-									return m;
-								}
-							});
-						if (u.username)
-							u.username = encodeURIComponent(decodeTriplets(u.username));
-						if (u.password)
-							u.password = encodeURIComponent(decodeTriplets(u.password));
-						return u.toString();
-					}
-					return raw;
-				} catch {}
-			}
+	templateCacheStats(): TemplateCacheStats {
+		return this.templates.stats();
+	}
 
-			// Manual rewrite tolerant of unencoded reserved in userinfo
-			const m = raw.match(/^([a-zA-Z][a-zA-Z0-9+.-]*):\/\//);
-			if (!m) return raw;
-			const scheme = m[1];
-			const rest = raw.slice(m[0].length);
-
-			const at = rest.lastIndexOf("@");
-			if (at === -1) return raw;
-			const userinfo = rest.slice(0, at);
-			const hostAndTail = rest.slice(at + 1);
-			let boundary = hostAndTail.length;
-			for (const sep of ["/", "?", "#"]) {
-				const idx = hostAndTail.indexOf(sep);
-				if (idx !== -1 && idx < boundary) boundary = idx;
-			}
-			const hostport = hostAndTail.slice(0, boundary);
-			const tail = hostAndTail.slice(boundary);
-			const colon = userinfo.indexOf(":");
-			const userRaw = colon === -1 ? userinfo : userinfo.slice(0, colon);
-			const passRaw = colon === -1 ? "" : userinfo.slice(colon + 1);
-			const safeDecode = (s: string) => {
-				try {
-					return decodeURIComponent(s);
-				} catch {
-					return s;
-				}
-			};
-			const username = encodeURIComponent(safeDecode(userRaw));
-			const password =
-				passRaw !== "" ? encodeURIComponent(safeDecode(passRaw)) : "";
-			const rebuiltAuthority = password
-				? `${username}:${password}@${hostport}`
-				: `${username}@${hostport}`;
-			return `${scheme}://${rebuiltAuthority}${tail}`;
-		})();
-
-		const out: string[] = [];
-		if (norm) out.push(norm);
-		if (raw && raw !== norm) out.push(raw);
-		const qp = this.toPgPasswordQueryVariant(raw);
-		if (qp) out.push(qp);
-		return out;
+	protected convertError(error: unknown): unknown {
+		return convertDriverError(this.provider, error);
 	}
 
-	private toPgPasswordQueryVariant(raw: string): string | null {
-		const m = raw.match(/^([a-zA-Z][a-zA-Z0-9+.-]*):\/\//);
-		if (!m) return null;
-		const scheme = m[1];
-		if (!["postgres", "postgresql"].includes(scheme)) return null;
-		const rest = raw.slice(m[0].length);
-		const at = rest.lastIndexOf("@");
-		if (at === -1) return null;
-		const userinfo = rest.slice(0, at);
-		const hostAndTail = rest.slice(at + 1);
-		let boundary = hostAndTail.length;
-		for (const sep of ["/", "?", "#"]) {
-			const idx = hostAndTail.indexOf(sep);
-			if (idx !== -1 && idx < boundary) boundary = idx;
+	private bindQueryArgs(query: SqlQuery): unknown[] {
+		return bindArgs(this.provider, query.args || [], query.argTypes);
+	}
+
+	private bindQuerySql(query: SqlQuery): string {
+		return castPgJsonPlaceholders(this.provider, query.sql, query.argTypes);
+	}
+
+	// Reject statements the deployment can't run; nothing by default
+	protected assertStatementSupported(_sql: string): void {}
+
+	async executeScript(
+		script: string,
+		options: BunScriptOptions = {},
+	): Promise<void> {
+		const statements = splitScript(this.provider, script);
+		statements.forEach(({ sql }) => this.assertStatementSupported(sql));
+
+		let connection: BunReservedSqlConnection;
+		try {
+			connection = await this.lease();
+		} catch (error) {
+			throw this.convertError(error);
 		}
-		const hostport = hostAndTail.slice(0, boundary);
-		const tail = hostAndTail.slice(boundary);
-		const colon = userinfo.indexOf(":");
-		const userRaw = colon === -1 ? userinfo : userinfo.slice(0, colon);
-		const passRaw = colon === -1 ? "" : userinfo.slice(colon + 1);
-		if (!passRaw) return null;
-		const safeDecode = (s: string) => {
-			try {
-				return decodeURIComponent(s);
-			} catch {
-				return s;
-			}
-		};
-		const username = encodeURIComponent(safeDecode(userRaw));
-		const passwordRaw = safeDecode(passRaw);
-		let path = tail;
-		let existingQuery = "";
-		const qIdx = tail.indexOf("?");
-		if (qIdx !== -1) {
-			path = tail.slice(0, qIdx);
-			existingQuery = tail.slice(qIdx + 1);
+		try {
+			await runScript(
+				this.provider,
+				statements,
+				(sql) => connection(this.createTemplateStrings([sql])),
+				(error) => this.convertError(error),
+				options,
+			);
+			this.replicas?.recordWrite();
+		} finally {
+			this.forgetDescriptions();
+			await this.releaseLease(connection);
 		}
-		const join = existingQuery ? "&" : "?";
-		const finalQuery = `${existingQuery ? "?" + existingQuery : ""}${join}password=${encodeURIComponent(passwordRaw)}`;
-		return `${scheme}://${username}@${hostport}${path}${finalQuery}`;
 	}
 
-	async dispose(): Promise<void> {
-		// Close all connections in parallel
-		await Promise.all(this.connections.map((conn) => conn.end()));
-		this.connections = [];
-		this.availableConnections = [];
-		if (this.waitQueue.length > 0) {
-			const error = new Error("Adapter disposed");
-			while (this.waitQueue.length) {
-				this.waitQueue.shift()?.reject(error);
-			}
+	async queryRaw(query: SqlQuery): Promise<SqlResultSet> {
+		this.assertStatementSupported(query.sql);
+		if (this.replicas?.routesToReplica(query.sql)) {
+			return this.replicas.queryRaw(query, () => this.queryPrimary(query));
 		}
-		templateCache.clear();
+		return this.queryPrimary(query);
 	}
 
-	async executeScript(script: string): Promise<void> {
-		const connection = await this.getConnection();
+	// Plain queries go straight to the pool, which dispatches them to any
+	// idle connection
+	private async queryPrimary(query: SqlQuery): Promise<SqlResultSet> {
 		try {
-			const statements = script.split(";").filter((stmt) => stmt.trim());
-			for (const statement of statements) {
-				if (statement.trim()) {
-					const strings = this.createTemplateStrings([statement.trim()]);
-					await connection(strings);
-				}
+			const resultSet = await this.slots.run(async () => {
+				const pool = await this.getPool();
+				const sql = this.bindQuerySql(query);
+				const args = this.bindQueryArgs(query);
+				const result = await this.executeQueryOptimized(pool, sql, args);
+				const description = await this.describeResult(sql, args, result, null);
+				return this.toResultSet(result, query.sql, description);
+			});
+			if (this.replicas && !isReadOnlyQuery(query.sql)) {
+				this.replicas.recordWrite();
 			}
-		} finally {
-			this.releaseConnection(connection);
+			return resultSet;
+		} catch (error) {
+			throw this.convertError(error);
 		}
 	}
 
-	async queryRaw(query: SqlQuery): Promise<SqlResultSet> {
-		const connection = await this.getConnection();
-		try {
-			const result = await this.executeQueryOptimized(
-				connection,
-				query.sql,
-				query.args || [],
-			);
+	// Result column types and names the driver doesn't report, if the
+	// database can describe them
+	protected async describeResult(
+		_sql: string,
+		_args: unknown[],
+		_result: BunSqlResult,
+		_transaction: BunSqlTransaction | null,
+	): Promise<ResultDescription | null> {
+		return null;
+	}
 
-			// Fast path for empty results
-			if (!Array.isArray(result) || result.length === 0) {
-				return { columnNames: [], columnTypes: [], rows: [] };
-			}
+	// Drop descriptions made stale by a statement, or all of them
+	protected forgetDescriptions(_sql?: string): void {}
 
-			// Pre-allocate arrays for better performance
-			const firstRow = result[0];
-			const columnNames = Object.keys(firstRow);
-			const columnCount = columnNames.length;
-			const rowCount = result.length;
-
-			// Determine column types using a scan to better detect JSON columns
-			const columnTypes = this.determineColumnTypes(result, columnNames);
-			const rows = new Array(rowCount);
-
-			// Process all rows efficiently
-			for (let rowIndex = 0; rowIndex < rowCount; rowIndex++) {
-				const row = result[rowIndex];
-				const processedRow = new Array(columnCount);
-
-				for (let colIndex = 0; colIndex < columnCount; colIndex++) {
-					const val = row[columnNames[colIndex]];
-					processedRow[colIndex] =
-						columnTypes[colIndex] === ColumnTypeEnum.Json
-							? this.ensureJsonString(val)
-							: this.serializeValueFast(val);
-				}
+	private toResultSet(
+		result: BunSqlResult,
+		sql: string,
+		description: ResultDescription | null = null,
+	): SqlResultSet {
+		// Fast path for empty results
+		const insertId = lastInsertId(sql, result);
+		if (!Array.isArray(result) || result.length === 0) {
+			const names = description?.columnNames ?? [];
+			return {
+				columnNames: names,
+				columnTypes: names.map(
+					(_, i) => description?.columnTypes[i] ?? ColumnTypeEnum.UnknownNumber,
+				),
+				rows: [],
+				...(insertId !== undefined && { lastInsertId: insertId }),
+			};
+		}
 
-				rows[rowIndex] = processedRow;
+		// Pre-allocate arrays for better performance
+		const columnNames = Object.keys(result[0]);
+		const columnCount = columnNames.length;
+		const rowCount = result.length;
+
+		// Scan values to better detect JSON columns
+		const columnTypes = applyDescribedTypes(
+			description,
+			columnNames,
+			inferColumnTypes(result, columnNames),
+		);
+		const rows = new Array(rowCount);
+
+		// Process all rows efficiently
+		for (let rowIndex = 0; rowIndex < rowCount; rowIndex++) {
+			const row = result[rowIndex];
+			const processedRow = new Array(columnCount);
+
+			for (let colIndex = 0; colIndex < columnCount; colIndex++) {
+				processedRow[colIndex] = this.serializeColumnValue(
+					columnTypes[colIndex],
+					row[columnNames[colIndex]],
+				);
 			}
 
-			return { columnNames, columnTypes, rows };
-		} finally {
-			this.releaseConnection(connection);
+			rows[rowIndex] = processedRow;
 		}
+
+		return {
+			columnNames,
+			columnTypes,
+			rows,
+			...(insertId !== undefined && { lastInsertId: insertId }),
+		};
 	}
 
 	async executeRaw(query: SqlQuery): Promise<number> {
-		const connection = await this.getConnection();
+		this.assertStatementSupported(query.sql);
 		try {
-			const result = await this.executeQueryOptimized(
-				connection,
-				query.sql,
-				query.args || [],
-			);
-			return result.affectedRows || result.count || 0;
+			const result = await this.slots.run(async () => {
+				const pool = await this.getPool();
+				return this.executeQueryOptimized(
+					pool,
+					this.bindQuerySql(query),
+					this.bindQueryArgs(query),
+				);
+			});
+			this.forgetDescriptions(query.sql);
+			this.replicas?.recordWrite();
+			return affectedRowCount(result);
 		} catch (error) {
-			throw new Error(error instanceof Error ? error.message : String(error));
-		} finally {
-			this.releaseConnection(connection);
+			throw this.convertError(error);
 		}
 	}
 
-	private executeQueryOptimized(
-		connection: BunSqlConnection,
+	protected executeQueryOptimized(
+		connection: BunSqlRunner,
 		sql: string,
 		args: any[],
 	): Promise<BunSqlResult> {
@@ -380,24 +371,11 @@ export class OptimizedBunPostgresDriverAdapter implements SqlDriverAdapter {
 			return connection(strings);
 		}
 
-		const cached = this.getOrCreateTemplate(sql, args.length);
-		if (cached) {
-			const expanded = cached.argOrder?.length
-				? cached.argOrder.map((i) => args[i])
-				: args;
-			const coerced = this.coerceArgsForPostgres(expanded);
-			return connection(cached.strings, ...coerced);
-		}
-
-		// Fallback: Query has args but no recognized placeholders
-		// This can happen with Prisma-generated queries that embed parameters differently
-		// We still need to coerce arrays for Postgres compatibility
-		const coerced = this.coerceArgsForPostgres(args);
-		const strings = this.createTemplateStrings([sql]);
-		return connection(strings, ...coerced);
+		const { strings, argOrder } = this.templates.compile(sql, args.length);
+		return connection(strings, ...argOrder.map((i) => args[i]));
 	}
 
-	private createTemplateStrings(parts: string[]): TemplateStringsArray {
+	protected createTemplateStrings(parts: string[]): TemplateStringsArray {
 		// Ensure we have at least one empty string at the end
 		if (parts.length === 1) {
 			parts = [...parts, ""];
@@ -405,246 +383,28 @@ export class OptimizedBunPostgresDriverAdapter implements SqlDriverAdapter {
 		return Object.assign(parts, { raw: parts }) as TemplateStringsArray;
 	}
 
-	// Convert primitive JS arrays to a Postgres array literal string.
-	// This helps when binding values into array-typed columns (e.g., text[]),
-	// preventing errors like: malformed array literal: "...".
-	// We keep object/complex arrays untouched to avoid interfering with JSON.
-	private coerceArgsForPostgres(args: any[]): any[] {
-		const toPgArrayLiteral = (arr: any[]): string => {
-			const encodeItem = (v: any): string => {
-				if (v === null || v === undefined) return "NULL";
-				switch (typeof v) {
-					case "number":
-						return Number.isFinite(v) ? String(v) : "NULL";
-					case "boolean":
-						return v ? "true" : "false";
-					case "string": {
-						const s = v.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
-						return `"${s}"`;
-					}
-					default: {
-						try {
-							const s = JSON.stringify(v);
-							const e = s.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
-							return `"${e}"`;
-						} catch {
-							return "NULL";
-						}
-					}
-				}
-			};
-			return `{${arr.map(encodeItem).join(",")}}`;
-		};
-
-		const isPrimitiveArray = (a: any[]): boolean =>
-			Array.isArray(a) &&
-			a.every(
-				(v) => v === null || ["string", "number", "boolean"].includes(typeof v),
-			);
-
-		return args.map((v) =>
-			Array.isArray(v) && isPrimitiveArray(v) ? toPgArrayLiteral(v) : v,
-		);
-	}
-
-	private getOrCreateTemplate(sql: string, argCount: number) {
-		if (argCount === 0) {
-			return null;
-		}
-
-		const cacheKey = sql;
-		let cached = templateCache.get(cacheKey);
-
-		if (!cached || cached.paramCount !== argCount) {
-			const built = this.buildTemplate(sql, argCount);
-			if (!built) {
-				// Don't throw - return null to allow fallback path
-				// This handles Prisma queries that embed parameters differently
-				return null;
-			}
-			templateCache.set(cacheKey, built);
-			cached = built;
-		}
-
-		return cached;
-	}
-
-	private buildTemplate(sql: string, argCount: number) {
-		const templateSql = this.replacePlaceholders(sql, argCount);
-		if (!templateSql) {
-			return null;
-		}
-
-		const parts = templateSql.split(/\$\{\d+\}/);
-		const strings = this.createTemplateStrings(parts);
-		const re = /\$\{(\d+)\}/g;
-		const argOrder: number[] = [];
-		let m: RegExpExecArray | null = re.exec(templateSql);
-		while (m !== null) {
-			argOrder.push(Number(m[1]));
-			m = re.exec(templateSql);
-		}
-		return { strings, paramCount: argCount, argOrder };
-	}
-
-	private replacePlaceholders(sql: string, argCount: number): string | null {
-		if (argCount === 0) {
-			return sql;
-		}
-
-		if (/\$\d+/.test(sql)) {
-			return this.replaceDollarPlaceholders(sql, argCount);
-		}
-
-		if (sql.includes("?")) {
-			return this.replaceQuestionPlaceholders(sql, argCount);
-		}
-
-		return null;
-	}
-
-	private replaceDollarPlaceholders(sql: string, argCount: number): string {
-		let templateSql = sql;
-		for (let n = argCount; n >= 1; n--) {
-			const idx = n - 1;
-			const marker = "${" + idx + "}";
-			templateSql = templateSql.replaceAll(`$${n}`, marker);
-		}
-		return templateSql;
-	}
-
-	private replaceQuestionPlaceholders(
-		sql: string,
-		argCount: number,
-	): string | null {
-		let result = "";
-		let lastIndex = 0;
-		let replaced = 0;
-		let i = 0;
-		let inSingle = false;
-		let inDouble = false;
-		let inLineComment = false;
-		let inBlockComment = false;
-		let dollarTag: string | null = null;
-
-		while (i < sql.length) {
-			const char = sql[i];
-			const next = sql[i + 1];
-
-			if (inLineComment) {
-				if (char === "\n") {
-					inLineComment = false;
-				}
-				i++;
-				continue;
-			}
-
-			if (inBlockComment) {
-				if (char === "*" && next === "/") {
-					inBlockComment = false;
-					i += 2;
-					continue;
-				}
-				i++;
-				continue;
-			}
-
-			if (dollarTag) {
-				if (sql.startsWith(dollarTag, i)) {
-					i += dollarTag.length;
-					dollarTag = null;
-					continue;
-				}
-				i++;
-				continue;
-			}
-
-			if (inSingle) {
-				if (char === "'" && next === "'") {
-					i += 2;
-					continue;
-				}
-				if (char === "'") {
-					inSingle = false;
-				}
-				i++;
-				continue;
-			}
-
-			if (inDouble) {
-				if (char === '"' && next === '"') {
-					i += 2;
-					continue;
-				}
-				if (char === '"') {
-					inDouble = false;
-				}
-				i++;
-				continue;
-			}
-
-			if (char === "'" && !inDouble) {
-				inSingle = true;
-				i++;
-				continue;
-			}
-
-			if (char === '"' && !inSingle) {
-				inDouble = true;
-				i++;
-				continue;
-			}
-
-			if (char === "-" && next === "-") {
-				inLineComment = true;
-				i += 2;
-				continue;
-			}
-
-			if (char === "/" && next === "*") {
-				inBlockComment = true;
-				i += 2;
-				continue;
-			}
-
-			if (char === "$") {
-				const match = sql.slice(i).match(/^\$[A-Za-z0-9_]*\$/);
-				if (match) {
-					dollarTag = match[0];
-					i += match[0].length;
-					continue;
-				}
-			}
-
-			if (char === "?" && replaced < argCount) {
-				result += sql.slice(lastIndex, i) + "${" + replaced + "}";
-				replaced++;
-				i++;
-				lastIndex = i;
-				continue;
-			}
-
-			i++;
-		}
-
-		result += sql.slice(lastIndex);
-		if (replaced !== argCount) {
-			return null;
-		}
-		return result;
+	// Statements that open a transaction on a leased connection
+	protected transactionStartStatements(
+		isolationLevel?: IsolationLevel,
+		options?: BunTransactionOptions,
+	): string[] {
+		return transactionStartStatements(this.provider, isolationLevel, options);
 	}
 
 	async startTransaction(
 		isolationLevel?: IsolationLevel,
-	): Promise<Transaction> {
-		const connection = await this.getConnection();
+		options?: BunTransactionOptions,
+	): Promise<BunTransaction> {
+		const startStatements = this.transactionStartStatements(
+			isolationLevel,
+			options,
+		);
 		let reserved: BunReservedSqlConnection;
 
 		try {
-			reserved = await connection.reserve();
+			reserved = await this.lease();
 		} catch (err) {
-			this.releaseConnection(connection);
-			throw err;
+			throw this.convertError(err);
 		}
 
 		const txRunner = ((strings: TemplateStringsArray, ...values: any[]) =>
@@ -661,18 +421,6 @@ export class OptimizedBunPostgresDriverAdapter implements SqlDriverAdapter {
 		};
 
 		let finished = false;
-		let aborted = false;
-
-		const releaseReserved = async () => {
-			try {
-				const maybeRelease = reserved.release?.();
-				if (maybeRelease && typeof (maybeRelease as any).then === "function") {
-					await maybeRelease;
-				}
-			} catch {
-				// ignore release errors
-			}
-		};
 
 		const finalize = async (action: "commit" | "rollback") => {
 			if (finished) {
@@ -682,7 +430,14 @@ export class OptimizedBunPostgresDriverAdapter implements SqlDriverAdapter {
 			finished = true;
 			try {
 				if (action === "commit") {
-					await txRunner.commit();
+					try {
+						await txRunner.commit();
+					} catch (err) {
+						// A failed COMMIT can leave the transaction open on the
+						// connection; end it before the lease goes back to the pool
+						await txRunner.rollback().catch(() => {});
+						throw err;
+					}
 				} else {
 					try {
 						await txRunner.rollback();
@@ -691,25 +446,17 @@ export class OptimizedBunPostgresDriverAdapter implements SqlDriverAdapter {
 					}
 				}
 			} finally {
-				await releaseReserved();
-				this.releaseConnection(connection);
+				await this.releaseLease(reserved);
 			}
 		};
 
 		try {
-			const begin = this.createTemplateStrings(["BEGIN"]);
-			await reserved(begin);
-
-			if (isolationLevel) {
-				const iso = this.createTemplateStrings([
-					`SET TRANSACTION ISOLATION LEVEL ${isolationLevel}`,
-				]);
-				await reserved(iso);
+			for (const statement of startStatements) {
+				await reserved(this.createTemplateStrings([statement]));
 			}
 		} catch (err) {
-			await releaseReserved();
-			this.releaseConnection(connection);
-			throw err;
+			await this.releaseLease(reserved);
+			throw this.convertError(err);
 		}
 
 		const runQuery = async (
@@ -719,15 +466,18 @@ export class OptimizedBunPostgresDriverAdapter implements SqlDriverAdapter {
 			if (finished) {
 				throw new Error("Transaction is already closed");
 			}
+			this.assertStatementSupported(sql);
 
 			try {
 				return await this.executeTransactionQueryOptimized(txRunner, sql, args);
 			} catch (err) {
-				aborted = true;
-				throw err;
+				savepoints.markFailed();
+				throw this.convertError(err);
 			}
 		};
 
+		const savepoints = new SavepointStack((sql) => runQuery(sql, []));
+
 		return {
 			provider: this.provider,
 			adapterName: this.adapterName,
@@ -735,54 +485,55 @@ export class OptimizedBunPostgresDriverAdapter implements SqlDriverAdapter {
 				usePhantomQuery: false,
 			},
 			queryRaw: async (query: SqlQuery) => {
-				const result = await runQuery(query.sql, query.args || []);
-
-				if (!Array.isArray(result) || result.length === 0) {
-					return { columnNames: [], columnTypes: [], rows: [] };
-				}
-
-				const firstRow = result[0];
-				const columnNames = Object.keys(firstRow);
-				const columnCount = columnNames.length;
-
-				const columnTypes = this.determineColumnTypes(result, columnNames);
-				const rows = new Array(result.length);
-
-				for (let rowIndex = 0; rowIndex < result.length; rowIndex++) {
-					const row = result[rowIndex];
-					const processedRow = new Array(columnCount);
-
-					for (let colIndex = 0; colIndex < columnCount; colIndex++) {
-						const val = row[columnNames[colIndex]];
-						processedRow[colIndex] =
-							columnTypes[colIndex] === ColumnTypeEnum.Json
-								? this.ensureJsonString(val)
-								: this.serializeValueFast(val);
-					}
-
-					rows[rowIndex] = processedRow;
+				const sql = this.bindQuerySql(query);
+				const args = this.bindQueryArgs(query);
+				const result = await runQuery(sql, args);
+				try {
+					const description = await this.describeResult(
+						sql,
+						args,
+						result,
+						txRunner,
+					);
+					return this.toResultSet(result, query.sql, description);
+				} catch (err) {
+					throw this.convertError(err);
 				}
-
-				return { columnNames, columnTypes, rows };
 			},
 			executeRaw: async (query: SqlQuery) => {
-				const result = await runQuery(query.sql, query.args || []);
-				return result.affectedRows || result.count || 0;
+				const result = await runQuery(
+					this.bindQuerySql(query),
+					this.bindQueryArgs(query),
+				);
+				this.forgetDescriptions(query.sql);
+				return affectedRowCount(result);
 			},
 			commit: async () => {
-				if (aborted) {
+				if (savepoints.failed) {
 					await finalize("rollback");
 					throw new Error("Transaction rolled back due to a previous error");
 				}
-				await finalize("commit");
+				try {
+					await finalize("commit");
+					this.replicas?.recordWrite();
+				} catch (err) {
+					throw this.convertError(err);
+				}
 			},
 			rollback: async () => {
 				await finalize("rollback");
 			},
+			get savepointDepth() {
+				return savepoints.depth;
+			},
+			createSavepoint: (name?: string) => savepoints.create(name),
+			rollbackToSavepoint: (name?: string) => savepoints.rollbackTo(name),
+			releaseSavepoint: (name?: string) => savepoints.release(name),
+			savepoint: (fn) => savepoints.scoped(fn),
 		};
 	}
 
-	private executeTransactionQueryOptimized(
+	protected executeTransactionQueryOptimized(
 		tx: BunSqlTransaction,
 		sql: string,
 		args: any[],
@@ -792,201 +543,202 @@ export class OptimizedBunPostgresDriverAdapter implements SqlDriverAdapter {
 			return tx(strings);
 		}
 
-		const cached = this.getOrCreateTemplate(sql, args.length);
-		if (cached) {
-			const expanded = cached.argOrder?.length
-				? cached.argOrder.map((i) => args[i])
-				: args;
-			const coerced = this.coerceArgsForPostgres(expanded);
-			return tx(cached.strings, ...coerced);
-		}
+		const { strings, argOrder } = this.templates.compile(sql, args.length);
+		return tx(strings, ...argOrder.map((i) => args[i]));
+	}
+}
 
-		// Fallback: Transaction query has args but no recognized placeholders
-		// Apply array coercion for Postgres compatibility
-		const coerced = this.coerceArgsForPostgres(args);
-		const strings = this.createTemplateStrings([sql]);
-		return tx(strings, ...coerced);
+export class OptimizedBunPostgresDriverAdapter extends OptimizedBunDriverAdapter {
+	readonly provider = "postgres" as const;
+	readonly adapterName = "bun-postgres-adapter-optimized";
+	private session: PgSessionOptions;
+	private describer: PgResultDescriber;
+
+	constructor(
+		connectionString: string,
+		pool: BunPoolOptions | number = {},
+		replicas: ReplicaRouter | null = null,
+		ssl?: BunSslConfig,
+		session: PgSessionOptions = { pgbouncer: false },
+	) {
+		super(connectionString, pool, replicas, ssl);
+		this.session = session;
+		this.describer = new PgResultDescriber(this.poolSettings.templateCacheSize);
 	}
 
-	private inferColumnTypeFast(value: unknown): ColumnType {
-		if (value === null || value === undefined) {
-			return ColumnTypeEnum.UnknownNumber;
+	protected async createConnection(): Promise<BunSqlConnection> {
+		const BunSQL = (globalThis as any).Bun?.sql;
+		if (!BunSQL) {
+			throw new Error(
+				"Bun's native SQL client is not available. Make sure you're running with Bun 1.3+",
+			);
 		}
 
-		const valueType = typeof value;
-
-		// Fast type checking - most common cases first
-		switch (valueType) {
-			case "boolean":
-				return ColumnTypeEnum.Boolean;
-			case "number":
-				return Number.isInteger(value)
-					? ColumnTypeEnum.Int32
-					: ColumnTypeEnum.Double;
-			case "bigint":
-				return ColumnTypeEnum.Int64;
-			case "string":
-				// Fast string type detection
-				if (DATETIME_REGEX.test(value as string)) {
-					return ColumnTypeEnum.DateTime;
-				}
-				if (DATE_REGEX.test(value as string)) {
-					return ColumnTypeEnum.Date;
-				}
-				if (UUID_REGEX.test(value as string)) {
-					return ColumnTypeEnum.Uuid;
-				}
-				return ColumnTypeEnum.Text;
-			case "object":
-				if (value instanceof Date) {
-					return ColumnTypeEnum.DateTime;
-				}
-				if (Buffer.isBuffer(value)) {
-					return ColumnTypeEnum.Bytes;
+		const { url, tls } = await resolveTls(this.connectionString, this.ssl);
+		const candidates = pgConnectionCandidates(url);
+		let lastErr: any = null;
+		for (const candidate of candidates) {
+			try {
+				const conn = new BunSQL({
+					url: candidate,
+					...toBunSqlPoolOptions(this.poolSettings),
+					...(tls !== undefined && { tls }),
+				}) as BunSqlConnection;
+				try {
+					const strings = this.createTemplateStrings(["SELECT 1"]);
+					await conn(strings);
+					return conn;
+				} catch (warmErr: any) {
+					if (isPgAuthFailed(warmErr)) {
+						lastErr = warmErr;
+						continue;
+					}
+					throw warmErr;
 				}
-				return ColumnTypeEnum.Json;
-			default:
-				return ColumnTypeEnum.UnknownNumber;
-		}
-	}
-
-	private serializeValueFast(value: unknown): unknown {
-		if (value === null || value === undefined) {
-			return value;
+			} catch (e: any) {
+				lastErr = e;
+				continue;
+			}
 		}
-
-		const valueType = typeof value;
-
-		// Fast path for common types
 		if (
-			valueType === "string" ||
-			valueType === "number" ||
-			valueType === "boolean"
+			lastErr &&
+			(lastErr instanceof URIError ||
+				(typeof lastErr?.message === "string" && /uri/i.test(lastErr.message)))
 		) {
-			return value;
+			throw new Error(
+				"Invalid DATABASE_URL/connectionString. Check URL shape; credentials are auto-encoded by the adapter.",
+			);
 		}
+		throw lastErr ?? new Error("Failed to establish Postgres connection");
+	}
 
-		if (valueType === "bigint") {
-			return value.toString();
-		}
+	protected assertStatementSupported(sql: string): void {
+		if (this.session.pgbouncer) assertPgBouncerSafe(sql);
+	}
 
-		if (value instanceof Date) {
-			return value.toISOString();
-		}
+	getConnectionInfo(): ConnectionInfo {
+		return postgresConnectionInfo(this.session.schema);
+	}
 
-		if (Buffer.isBuffer(value)) {
-			return value;
-		}
+	protected transactionStartStatements(
+		isolationLevel?: IsolationLevel,
+		options?: BunTransactionOptions,
+	): string[] {
+		const statements = super.transactionStartStatements(isolationLevel, options);
+		// Without a pooler, search_path is already a startup parameter of
+		// every connection
+		const { pgbouncer, schema } = this.session;
+		if (pgbouncer && schema !== undefined) {
+			statements.push(`SET LOCAL search_path TO ${quoteIdentifier(schema)}`);
+		}
+		return statements;
+	}
 
-		// CRITICAL: If value is an array, return it as-is
-		// Prisma expects arrays for array-typed columns (text[], int[], etc.)
-		// Converting to JSON string breaks Prisma's .map() calls
-		if (Array.isArray(value)) {
-			return value;
-		}
+	protected serializeColumnValue(type: ColumnType, value: unknown): unknown {
+		return serializeResultValue(type, serializePgValue(type, value));
+	}
 
-		// Ensure JSON columns arrive as valid JSON strings
-		try {
-			return JSON.stringify(value);
-		} catch {
-			return String(value);
+	// Described on a connection reserved next to the query's slot, or in the
+	// query's own transaction
+	protected describeResult(
+		sql: string,
+		args: unknown[],
+		result: BunSqlResult,
+		transaction: BunSqlTransaction | null,
+	): Promise<ResultDescription | null> {
+		const emptyResult = result.length === 0;
+		if (transaction) {
+			return this.describer.describe(sql, args, emptyResult, "savepoint", (use) =>
+				use((statement, values = []) =>
+					this.executeTransactionQueryOptimized(transaction, statement, values),
+				),
+			);
 		}
+		const scope = this.session.pgbouncer ? "transaction" : "session";
+		return this.describer.describe(sql, args, emptyResult, scope, async (use) => {
+			const reserved = await (await this.getPool()).reserve();
+			try {
+				return await use((statement, values = []) =>
+					this.executeQueryOptimized(reserved, statement, values),
+				);
+			} finally {
+				try {
+					await reserved.release?.();
+				} catch {
+					// ignore release errors
+				}
+			}
+		});
 	}
 
-	private determineColumnTypes(
-		result: any[],
-		columnNames: string[],
-	): ColumnType[] {
-		const columnCount = columnNames.length;
-		const types = new Array(columnCount) as ColumnType[];
-
-		for (let i = 0; i < columnCount; i++) {
-			const name = columnNames[i];
-
-			let hasArray = false;
-			let hasOtherObjects = false;
-			let arrayElementType: ColumnType | null = null;
+	protected forgetDescriptions(sql?: string): void {
+		if (sql === undefined) this.describer.clear();
+		else this.describer.invalidate(sql);
+	}
+}
 
-			for (let r = 0; r < result.length; r++) {
-				const v = result[r][name];
-				if (v === null || v === undefined) continue;
+export class OptimizedBunMySQLDriverAdapter extends OptimizedBunDriverAdapter {
+	readonly provider = "mysql" as const;
+	readonly adapterName = "bun-mysql-adapter-optimized";
+	// Reported by the warm-up query; relation joins depend on it
+	private serverVersion: string | null = null;
 
-				if (Array.isArray(v)) {
-					hasArray = true;
-					if (v.length > 0 && arrayElementType === null) {
-						arrayElementType = this.inferColumnTypeFast(v[0]);
-					}
-					break;
-				} else if (
-					typeof v === "object" &&
-					!(v instanceof Date) &&
-					!Buffer.isBuffer(v)
-				) {
-					hasOtherObjects = true;
-				}
-			}
+	protected async createConnection(): Promise<BunSqlConnection> {
+		const BunSQL = (globalThis as any).Bun?.sql;
+		if (!BunSQL) {
+			throw new Error(
+				"Bun's native SQL client is not available. Make sure you're running with Bun 1.3+",
+			);
+		}
 
-			if (hasArray && arrayElementType !== null) {
-				// Map base type to array type
-				const arrayTypeMap: Record<number, ColumnType> = {
-					[ColumnTypeEnum.Int32]: ColumnTypeEnum.Int32Array,
-					[ColumnTypeEnum.Int64]: ColumnTypeEnum.Int64Array,
-					[ColumnTypeEnum.Float]: ColumnTypeEnum.FloatArray,
-					[ColumnTypeEnum.Double]: ColumnTypeEnum.DoubleArray,
-					[ColumnTypeEnum.Numeric]: ColumnTypeEnum.NumericArray,
-					[ColumnTypeEnum.Boolean]: ColumnTypeEnum.BooleanArray,
-					[ColumnTypeEnum.Character]: ColumnTypeEnum.CharacterArray,
-					[ColumnTypeEnum.Text]: ColumnTypeEnum.TextArray,
-					[ColumnTypeEnum.Date]: ColumnTypeEnum.DateArray,
-					[ColumnTypeEnum.Time]: ColumnTypeEnum.TimeArray,
-					[ColumnTypeEnum.DateTime]: ColumnTypeEnum.DateTimeArray,
-					[ColumnTypeEnum.Json]: ColumnTypeEnum.JsonArray,
-					[ColumnTypeEnum.Enum]: ColumnTypeEnum.EnumArray,
-					[ColumnTypeEnum.Bytes]: ColumnTypeEnum.BytesArray,
-					[ColumnTypeEnum.Uuid]: ColumnTypeEnum.UuidArray,
-				};
-
-				types[i] = arrayTypeMap[arrayElementType] ?? ColumnTypeEnum.JsonArray;
-				
-			} else if (hasArray) {
-				// Empty array or couldn't determine type
-				types[i] = ColumnTypeEnum.JsonArray;
-			} else if (hasOtherObjects) {
-				types[i] = ColumnTypeEnum.Json;
-			} else {
-				types[i] = this.inferColumnTypeFast(result[0]?.[name]);
+		const { url, tls } = await resolveTls(this.connectionString, this.ssl);
+		let conn: BunSqlConnection;
+		try {
+			conn = new BunSQL({
+				url: normalizeConnectionString(url),
+				...toBunSqlPoolOptions(this.poolSettings),
+				...(tls !== undefined && { tls }),
+			}) as BunSqlConnection;
+		} catch (e: any) {
+			if (
+				e instanceof URIError ||
+				(typeof e?.message === "string" && /uri/i.test(e.message))
+			) {
+				throw new Error(
+					"Invalid DATABASE_URL/connectionString. Check URL shape; credentials are auto-encoded by the adapter.",
+				);
 			}
+			throw e;
 		}
 
-		return types;
-	}
-
-	private isJsonishString(s: string): boolean {
-		if (!s) return false;
-		const t = s.trim();
-		if (!t) return false;
-		if (t.startsWith("{") || t.startsWith("[")) return true;
-		if (t.startsWith('"') && t.endsWith('"')) return true;
-		return false;
+		try {
+			const [row] = await conn(this.createTemplateStrings(["SELECT VERSION() AS version"]));
+			this.serverVersion = typeof row?.version === "string" ? row.version : null;
+		} catch {
+			// Ignore warm-up errors; the first query reports them
+		}
+		return conn;
 	}
 
-	private ensureJsonString(value: unknown): string {
-		if (value === null || value === undefined) return "null";
-		const t = typeof value;
-		if (t === "string") {
-			const s = value as string;
-			return this.isJsonishString(s) ? s : JSON.stringify(s);
-		}
-		if (t === "number" || t === "boolean") return JSON.stringify(value);
-		if (value instanceof Date) return JSON.stringify(value.toISOString());
-		if (Buffer.isBuffer(value))
-			return JSON.stringify(Array.from(value as unknown as Uint8Array));
+	// Open the pool early so getConnectionInfo knows the server version
+	async loadServerVersion(): Promise<void> {
 		try {
-			return JSON.stringify(value);
+			await this.getPool();
 		} catch {
-			return "null";
+			// keep the conservative defaults
 		}
 	}
+
+	getConnectionInfo(): ConnectionInfo {
+		return mysqlConnectionInfo(
+			this.serverVersion,
+			databaseName(this.connectionString),
+		);
+	}
+
+	protected serializeColumnValue(type: ColumnType, value: unknown): unknown {
+		return serializeResultValue(type, value);
+	}
 }
 
 export class BunPostgresAdapter {
@@ -999,27 +751,154 @@ export class BunPostgresAdapter {
 	}
 
 	async connect(): Promise<SqlDriverAdapter> {
-		const connectionString =
-			typeof this.config === "string"
-				? this.config
-				: this.config.connectionString;
-
-		const maxConnections =
-			typeof this.config === "string"
-				? 20 // Increased default for better concurrency
-				: this.config.maxConnections || 20;
+		const parsed = this.parsedConnectionString;
+		reportConnectionWarnings(parsed, this.config);
 
 		return new OptimizedBunPostgresDriverAdapter(
-			connectionString,
-			maxConnections,
+			parsed.url,
+			this.poolSettings,
+			this.createReplicaRouter(),
+			typeof this.config === "string" ? undefined : this.config.ssl,
+			parsed,
 		);
 	}
 
+	private get parsedConnectionString(): ParsedConnectionString {
+		return typeof this.config === "string"
+			? parseConnectionString(this.provider, this.config)
+			: parseConnectionString(this.provider, this.config.connectionString, {
+					pgbouncer: this.config.pgbouncer,
+					schema: this.config.schema,
+				});
+	}
+
+	private createReplicaRouter(): ReplicaRouter | null {
+		if (typeof this.config === "string" || !this.config.replicas?.length) {
+			return null;
+		}
+		const { replicas, replicaOptions, ssl, pgbouncer, schema } = this.config;
+		const primaryPool = this.poolSettings;
+		return new ReplicaRouter(
+			replicas.map((url) => {
+				const parsed = parseConnectionString(this.provider, url, {
+					pgbouncer,
+					schema,
+				});
+				reportConnectionWarnings(parsed, this.config);
+				return new OptimizedBunPostgresDriverAdapter(
+					parsed.url,
+					resolvePoolSettings(mergePoolOptions(primaryPool, parsed.pool)),
+					null,
+					ssl,
+					parsed,
+				);
+			}),
+			replicaOptions,
+		);
+	}
+
+	// Pool settings the shared Bun.sql client is created with. Explicit
+	// options win over connection string parameters such as connection_limit.
+	get poolSettings(): Readonly<BunPoolSettings> {
+		const parsed = this.parsedConnectionString;
+		const options = mergePoolOptions(
+			parsed.pool,
+			typeof this.config === "string" ? {} : this.config,
+		);
+		if (parsed.pgbouncer && options.prepare) {
+			throw new Error("prepare: true cannot be combined with pgbouncer mode");
+		}
+		return resolvePoolSettings(options, OPTIMIZED_POOL_DEFAULTS);
+	}
+
 	async dispose(): Promise<void> {
 		// Factory cleanup
 	}
 }
+export class BunMySQLAdapter {
+	readonly provider = "mysql" as const;
+	readonly adapterName = "bun-mysql-adapter-optimized";
+	private config: BunMySQLConfig | string;
+
+	constructor(config: BunMySQLConfig | string) {
+		this.config = config;
+	}
+
+	async connect(): Promise<SqlDriverAdapter> {
+		const parsed = this.parsedConnectionString;
+		reportConnectionWarnings(parsed, this.config);
+
+		const driver = new OptimizedBunMySQLDriverAdapter(
+			parsed.url,
+			this.poolSettings,
+			this.createReplicaRouter(),
+			typeof this.config === "string" ? undefined : this.config.ssl,
+		);
+		await driver.loadServerVersion();
+		return driver;
+	}
+
+	private get parsedConnectionString(): ParsedConnectionString {
+		return parseConnectionString(
+			this.provider,
+			typeof this.config === "string"
+				? this.config
+				: this.config.connectionString,
+		);
+	}
+
+	private createReplicaRouter(): ReplicaRouter | null {
+		if (typeof this.config === "string" || !this.config.replicas?.length) {
+			return null;
+		}
+		const { replicas, replicaOptions, ssl } = this.config;
+		const primaryPool = this.poolSettings;
+		return new ReplicaRouter(
+			replicas.map((url) => {
+				const parsed = parseConnectionString(this.provider, url);
+				reportConnectionWarnings(parsed, this.config);
+				return new OptimizedBunMySQLDriverAdapter(
+					parsed.url,
+					resolvePoolSettings(mergePoolOptions(primaryPool, parsed.pool)),
+					null,
+					ssl,
+				);
+			}),
+			replicaOptions,
+		);
+	}
+
+	// Pool settings the shared Bun.sql client is created with. Explicit
+	// options win over connection string parameters such as connection_limit.
+	get poolSettings(): Readonly<BunPoolSettings> {
+		return resolvePoolSettings(
+			mergePoolOptions(
+				this.parsedConnectionString.pool,
+				typeof this.config === "string" ? {} : this.config,
+			),
+			OPTIMIZED_POOL_DEFAULTS,
+		);
+	}
+
+	async dispose(): Promise<void> {}
+}
 
 export default BunPostgresAdapter;
 // Convenience alias to match common naming expectations
 export { BunPostgresAdapter as BunPostgres };
+export type { BunMySQLConfig, BunPostgresConfig } from "./adapter-config.js";
+export type { BunAdapterLogger } from "./connection-string.js";
+export { PoolTimeoutError, ScriptError } from "./errors.js";
+export {
+	BunSQLiteAdapter,
+	OptimizedBunSQLiteDriverAdapter,
+} from "./optimized-sqlite.js";
+export type { BunSQLiteConfig } from "./optimized-sqlite.js";
+export { withPrimary, withReplicaSession } from "./replicas.js";
+export type { BunReplicaOptions } from "./replicas.js";
+export type { BunSslConfig } from "./tls.js";
+export type { BunTransaction } from "./savepoints.js";
+export type { BunScriptOptions } from "./script.js";
+export type { BunSQLitePragmas } from "./sqlite-pragmas.js";
+export type { TemplateCacheStats } from "./template-cache.js";
+export type { BunTransactionOptions } from "./transaction-start.js";
@@ -0,0 +1,501 @@
+import type { Database, Statement } from "bun:sqlite";
+import {
+	SqlDriverAdapter,
+	SqlQuery,
+	SqlResultSet,
+	ColumnType,
+	ConnectionInfo,
+	IsolationLevel,
+} from "@prisma/driver-adapter-utils";
+import { bindArgs } from "./arg-binding.js";
+import { sqliteConnectionInfo } from "./connection-info.js";
+import { PoolSlots } from "./connection-pool.js";
+import {
+	BunAdapterLogger,
+	ParsedConnectionString,
+	parseConnectionString,
+	reportConnectionWarnings,
+} from "./connection-string.js";
+import { convertDriverError } from "./errors.js";
+import {
+	BunPoolOptions,
+	BunPoolSettings,
+	SQLITE_POOL_DEFAULTS,
+	mergePoolOptions,
+	resolvePoolSettings,
+} from "./pool-settings.js";
+import { BunTransaction, SavepointStack } from "./savepoints.js";
+import { BunScriptOptions, runScript, splitScript } from "./script.js";
+import { BunSQLitePragmas, sqlitePragmaStatements } from "./sqlite-pragmas.js";
+import {
+	inferSQLiteValueType,
+	isSQLiteSchemaChange,
+	serializeSQLiteValue,
+	sqliteDeclTypeToColumnType,
+} from "./sqlite-types.js";
+import type { TemplateCacheStats } from "./template-cache.js";
+import {
+	BunTransactionOptions,
+	transactionStartStatements,
+} from "./transaction-start.js";
+import { lastInsertId } from "./write-result.js";
+
+export interface BunSQLiteConfig
+	extends Pick<BunPoolOptions, "poolTimeout" | "queueLimit" | "templateCacheSize"> {
+	filename: string;
+	// Open the database read-only
+	readonly?: boolean;
+	// Create the database file if it doesn't exist (default true)
+	create?: boolean;
+	// PRAGMAs applied after opening, over the adapter's defaults
+	pragmas?: BunSQLitePragmas;
+	// Receives warnings about ignored connection string parameters (default console)
+	logger?: BunAdapterLogger;
+}
+
+interface SQLiteOpenOptions {
+	readonly: boolean;
+	create: boolean;
+	pragmas: string[];
+}
+
+// "file:./dev.db?mode=ro" -> "./dev.db": bun:sqlite opens paths, not URLs
+export function sqliteFilename(url: string): string {
+	const [path, query = ""] = url.split("?", 2);
+	if (new URLSearchParams(query).get("mode") === "memory") return ":memory:";
+	return path.replace(/^(?:file|sqlite):(?:\/\/)?/i, "") || ":memory:";
+}
+
+/**
+ * Prepared statements of one database, least recently used first. Evicted
+ * statements are finalized to free their SQLite resources.
+ */
+class StatementCache {
+	private entries = new Map<string, Statement>();
+	private hits = 0;
+	private misses = 0;
+	private evictions = 0;
+
+	constructor(private readonly capacity: number) {}
+
+	prepare(db: Database, sql: string): Statement {
+		const cached = this.entries.get(sql);
+		if (cached) {
+			this.hits++;
+			this.entries.delete(sql);
+			this.entries.set(sql, cached);
+			return cached;
+		}
+
+		this.misses++;
+		const statement = db.prepare(sql);
+		if (this.capacity > 0) {
+			if (this.entries.size >= this.capacity) {
+				const oldest = this.entries.keys().next().value!;
+				this.entries.get(oldest)!.finalize();
+				this.entries.delete(oldest);
+				this.evictions++;
+			}
+			this.entries.set(sql, statement);
+		}
+		return statement;
+	}
+
+	stats(): TemplateCacheStats {
+		return {
+			size: this.entries.size,
+			capacity: this.capacity,
+			hits: this.hits,
+			misses: this.misses,
+			evictions: this.evictions,
+		};
+	}
+
+	clear(): void {
+		for (const statement of this.entries.values()) statement.finalize();
+		this.entries.clear();
+	}
+}
+
+// Prisma expects 64-bit integers as strings and blobs as byte arrays
+function serializeValue(type: ColumnType, value: unknown): unknown {
+	const serialized = serializeSQLiteValue(type, value);
+	if (typeof serialized === "bigint") return serialized.toString();
+	if (serialized instanceof Uint8Array) return Array.from(serialized);
+	return serialized;
+}
+
+function firstNonNull(rows: unknown[][], column: number): unknown {
+	for (let r = 0; r < rows.length; r++) {
+		const v = rows[r][column];
+		if (v !== null && v !== undefined) return v;
+	}
+	return null;
+}
+
+/**
+ * SQLite adapter on bun:sqlite itself rather than Bun.sql: statements are
+ * prepared once and cached, arguments bind by position, and rows come back
+ * as arrays with their declared column types attached.
+ */
+export class OptimizedBunSQLiteDriverAdapter implements SqlDriverAdapter {
+	readonly provider = "sqlite" as const;
+	readonly adapterName = "bun-sqlite-adapter-optimized";
+	readonly poolSettings: Readonly<BunPoolSettings>;
+	private connectionString: string;
+	private open: SQLiteOpenOptions;
+	private db: Database | null = null;
+	private opening: Promise<Database> | null = null;
+	private serverVersion: string | null = null;
+	// The database is one connection, so statements take turns on one slot
+	private slots: PoolSlots;
+	private statements: StatementCache;
+
+	constructor(
+		connectionString: string,
+		poolSettings: Readonly<BunPoolSettings>,
+		open: SQLiteOpenOptions = { readonly: false, create: true, pragmas: [] },
+	) {
+		this.connectionString = connectionString;
+		this.poolSettings = poolSettings;
+		this.open = open;
+		this.slots = new PoolSlots(poolSettings);
+		this.statements = new StatementCache(poolSettings.templateCacheSize);
+	}
+
+	private async getDatabase(): Promise<Database> {
+		if (this.db) {
+			return this.db;
+		}
+		this.opening ??= this.openDatabase().finally(() => {
+			this.opening = null;
+		});
+		this.db = await this.opening;
+		return this.db;
+	}
+
+	private async openDatabase(): Promise<Database> {
+		let sqlite: typeof import("bun:sqlite");
+		try {
+			sqlite = await import("bun:sqlite");
+		} catch {
+			throw new Error(
+				"bun:sqlite is not available. Make sure you're running with Bun 1.3+",
+			);
+		}
+
+		const filename = sqliteFilename(this.connectionString);
+		// safeIntegers keeps BIGINT values exact instead of lossy doubles
+		const db = this.open.readonly
+			? new sqlite.Database(filename, { readonly: true, safeIntegers: true })
+			: new sqlite.Database(filename, {
+					readwrite: true,
+					create: this.open.create,
+					safeIntegers: true,
+				});
+		try {
+			for (const pragma of this.open.pragmas) db.run(pragma);
+			const [version] = db.prepare("SELECT sqlite_version()").values()[0] ?? [];
+			this.serverVersion = typeof version === "string" ? version : null;
+		} catch (error) {
+			db.close();
+			throw error;
+		}
+		return db;
+	}
+
+	// Open the database now, so getConnectionInfo knows the SQLite version
+	async loadServerVersion(): Promise<void> {
+		try {
+			await this.getDatabase();
+		} catch {
+			// getConnectionInfo falls back to conservative values
+		}
+	}
+
+	getConnectionInfo(): ConnectionInfo {
+		return sqliteConnectionInfo(this.serverVersion);
+	}
+
+	// Hit/miss/eviction counters of the prepared statement cache
+	templateCacheStats(): TemplateCacheStats {
+		return this.statements.stats();
+	}
+
+	async dispose(): Promise<void> {
+		this.slots.close();
+		this.slots = new PoolSlots(this.poolSettings);
+		const db = this.db ?? (await this.opening?.catch(() => null));
+		this.db = null;
+		this.statements.clear();
+		db?.close();
+	}
+
+	// Map native driver failures to Prisma's structured DriverAdapterError kinds
+	private convertError(error: unknown): unknown {
+		return convertDriverError(this.provider, error);
+	}
+
+	// Bind parameters according to Prisma's declared argument types
+	private bindQueryArgs(query: SqlQuery): any[] {
+		return bindArgs(this.provider, query.args || [], query.argTypes);
+	}
+
+	private prepare(db: Database, sql: string, argCount: number): Statement {
+		// Statements prepared against the old schema must not outlive it
+		if (isSQLiteSchemaChange(sql)) this.statements.clear();
+		const statement = this.statements.prepare(db, sql);
+		if (statement.paramsCount !== argCount) {
+			throw new Error(
+				statement.paramsCount === 0
+					? `Query has ${argCount} arguments but no placeholders`
+					: `Query has ${statement.paramsCount} placeholders but ${argCount} arguments`,
+			);
+		}
+		return statement;
+	}
+
+	private query(db: Database, sql: string, args: any[]): SqlResultSet {
+		const statement = this.prepare(db, sql, args.length);
+		const columnNames = statement.columnNames;
+		// Statements without result columns run like executeRaw, and report
+		// the rowid an INSERT generated
+		if (columnNames.length === 0) {
+			const insertId = lastInsertId(sql, statement.run(...args));
+			return {
+				columnNames: [],
+				columnTypes: [],
+				rows: [],
+				...(insertId !== undefined && { lastInsertId: insertId }),
+			};
+		}
+
+		const rows = statement.values(...args) as unknown[][];
+
+		// Declared types are known once the statement has run
+		const declaredTypes = statement.declaredTypes;
+		const columnTypes = columnNames.map(
+			(_, i) =>
+				sqliteDeclTypeToColumnType(declaredTypes[i]) ??
+				inferSQLiteValueType(firstNonNull(rows, i)),
+		);
+		const columnCount = columnNames.length;
+		for (let r = 0; r < rows.length; r++) {
+			const row = rows[r];
+			for (let c = 0; c < columnCount; c++) {
+				row[c] = serializeValue(columnTypes[c], row[c]);
+			}
+		}
+		return { columnNames, columnTypes, rows };
+	}
+
+	private execute(db: Database, sql: string, args: any[]): number {
+		return this.prepare(db, sql, args.length).run(...args).changes;
+	}
+
+	async queryRaw(query: SqlQuery): Promise<SqlResultSet> {
+		try {
+			return await this.slots.run(async () =>
+				this.query(await this.getDatabase(), query.sql, this.bindQueryArgs(query)),
+			);
+		} catch (error) {
+			throw this.convertError(error);
+		}
+	}
+
+	async executeRaw(query: SqlQuery): Promise<number> {
+		try {
+			return await this.slots.run(async () =>
+				this.execute(await this.getDatabase(), query.sql, this.bindQueryArgs(query)),
+			);
+		} catch (error) {
+			throw this.convertError(error);
+		}
+	}
+
+	async executeScript(
+		script: string,
+		options: BunScriptOptions = {},
+	): Promise<void> {
+		const statements = splitScript(this.provider, script);
+		let releaseSlot: () => void;
+		let db: Database;
+		try {
+			releaseSlot = await this.slots.acquire();
+		} catch (error) {
+			throw this.convertError(error);
+		}
+		try {
+			db = await this.getDatabase();
+		} catch (error) {
+			releaseSlot();
+			throw this.convertError(error);
+		}
+		try {
+			// Script statements run once, so they bypass the statement cache
+			await runScript(
+				this.provider,
+				statements,
+				async (sql) => db.run(sql),
+				(error) => this.convertError(error),
+				options,
+			);
+		} finally {
+			this.statements.clear();
+			releaseSlot();
+		}
+	}
+
+	async startTransaction(
+		isolationLevel?: IsolationLevel,
+		options?: BunTransactionOptions,
+	): Promise<BunTransaction> {
+		const startStatements = transactionStartStatements(
+			this.provider,
+			isolationLevel,
+			options,
+			this.open.readonly,
+		);
+		let releaseSlot: () => void;
+		let db: Database;
+		try {
+			releaseSlot = await this.slots.acquire();
+		} catch (err) {
+			throw this.convertError(err);
+		}
+		try {
+			db = await this.getDatabase();
+			for (const statement of startStatements) db.run(statement);
+		} catch (err) {
+			releaseSlot();
+			throw this.convertError(err);
+		}
+
+		let finished = false;
+
+		const finalize = (action: "commit" | "rollback") => {
+			if (finished) {
+				return;
+			}
+
+			finished = true;
+			try {
+				db.run(action === "commit" ? "COMMIT" : "ROLLBACK");
+			} catch (err) {
+				// A failed COMMIT leaves the transaction open on the shared
+				// connection; end it before the next caller gets the slot
+				if (db.inTransaction) {
+					try {
+						db.run("ROLLBACK");
+					} catch {}
+				}
+				if (action === "commit") throw err;
+			} finally {
+				releaseSlot();
+			}
+		};
+
+		const run = <T>(fn: () => T): T => {
+			if (finished) {
+				throw new Error("Transaction is already closed");
+			}
+			try {
+				return fn();
+			} catch (err) {
+				savepoints.markFailed();
+				throw this.convertError(err);
+			}
+		};
+
+		const savepoints = new SavepointStack(async (sql) =>
+			run(() => this.execute(db, sql, [])),
+		);
+
+		return {
+			provider: this.provider,
+			adapterName: this.adapterName,
+			options: {
+				usePhantomQuery: false,
+			},
+			queryRaw: async (query: SqlQuery) =>
+				run(() => this.query(db, query.sql, this.bindQueryArgs(query))),
+			executeRaw: async (query: SqlQuery) =>
+				run(() => this.execute(db, query.sql, this.bindQueryArgs(query))),
+			commit: async () => {
+				if (savepoints.failed) {
+					finalize("rollback");
+					throw new Error("Transaction rolled back due to a previous error");
+				}
+				try {
+					finalize("commit");
+				} catch (err) {
+					throw this.convertError(err);
+				}
+			},
+			rollback: async () => {
+				finalize("rollback");
+			},
+			get savepointDepth() {
+				return savepoints.depth;
+			},
+			createSavepoint: (name?: string) => savepoints.create(name),
+			rollbackToSavepoint: (name?: string) => savepoints.rollbackTo(name),
+			releaseSavepoint: (name?: string) => savepoints.release(name),
+			savepoint: (fn) => savepoints.scoped(fn),
+		};
+	}
+}
+
+export class BunSQLiteAdapter {
+	readonly provider = "sqlite" as const;
+	readonly adapterName = "bun-sqlite-adapter-optimized";
+	private config: BunSQLiteConfig | string;
+
+	constructor(config: BunSQLiteConfig | string) {
+		this.config = config;
+	}
+
+	async connect(): Promise<SqlDriverAdapter> {
+		const parsed = this.parsedConnectionString;
+		reportConnectionWarnings(parsed, this.config);
+
+		const config: Partial<BunSQLiteConfig> =
+			typeof this.config === "string" ? {} : this.config;
+		// SQLite URI modes: ro, rw (no create), rwc and memory
+		const mode = new URLSearchParams(parsed.url.split("?")[1] ?? "").get("mode");
+		const readonly = config.readonly ?? mode === "ro";
+		const create = config.create ?? mode !== "rw";
+		const pragmas = { busyTimeout: parsed.busyTimeout, ...config.pragmas };
+		const driver = new OptimizedBunSQLiteDriverAdapter(parsed.url, this.poolSettings, {
+			readonly,
+			create,
+			pragmas: sqlitePragmaStatements(pragmas, readonly),
+		});
+		// The bind value limit depends on the SQLite version
+		await driver.loadServerVersion();
+		return driver;
+	}
+
+	private get parsedConnectionString(): ParsedConnectionString {
+		return parseConnectionString(
+			this.provider,
+			typeof this.config === "string"
+				? this.config
+				: `file:${this.config.filename}`,
+		);
+	}
+
+	// One connection; templateCacheSize bounds the prepared statement cache
+	get poolSettings(): Readonly<BunPoolSettings> {
+		const { poolTimeout, queueLimit, templateCacheSize } = mergePoolOptions(
+			this.parsedConnectionString.pool,
+			typeof this.config === "string" ? {} : this.config,
+		);
+		return resolvePoolSettings(
+			{ poolTimeout, queueLimit, templateCacheSize },
+			SQLITE_POOL_DEFAULTS,
+		);
+	}
+
+	async dispose(): Promise<void> {}
+}
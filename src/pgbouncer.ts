@@ -0,0 +1,52 @@
+// Startup parameters PgBouncer tracks per client. It refuses connections that
+// send any other one (unless listed in its ignore_startup_parameters).
+export const PGBOUNCER_STARTUP_PARAMS: ReadonlySet<string> = new Set([
+	"application_name",
+	"client_encoding",
+	"datestyle",
+	"timezone",
+	"standard_conforming_strings",
+]);
+
+const LEADING_COMMENTS = /^(?:\s|--[^\n]*(?:\n|$)|\/\*[\s\S]*?\*\/)*/;
+
+// Statements whose effect outlives their transaction. Behind a
+// transaction-mode pooler that state stays on the server connection and
+// leaks to whichever client is handed that connection next.
+const SESSION_FEATURES: Array<[RegExp, string]> = [
+	[/^SET\s+(?!LOCAL\b|TRANSACTION\b|CONSTRAINTS?\b)/i, "SET without LOCAL"],
+	[/^RESET\b/i, "RESET"],
+	[/^(?:UN)?LISTEN\b/i, "LISTEN"],
+	[/^PREPARE\b/i, "PREPARE"],
+	[/^LOAD\b/i, "LOAD"],
+	[/^DECLARE\b[\s\S]*\bWITH\s+HOLD\b/i, "WITH HOLD cursors"],
+	[
+		/^CREATE\s+(?:(?:GLOBAL|LOCAL)\s+)?TEMP(?:ORARY)?\b(?![\s\S]*\bON\s+COMMIT\s+DROP\b)/i,
+		"temporary tables without ON COMMIT DROP",
+	],
+	[/\bpg_(?:try_)?advisory_lock(?:_shared)?\s*\(/i, "session-level advisory locks"],
+	[/\bset_config\s*\([^)]*,\s*false\s*\)/i, "set_config(..., false)"],
+];
+
+// The session feature `sql` relies on, or null when it is pooler-safe
+export function sessionFeature(sql: string): string | null {
+	const statement = sql.replace(LEADING_COMMENTS, "");
+	for (const [pattern, feature] of SESSION_FEATURES) {
+		if (pattern.test(statement)) return feature;
+	}
+	return null;
+}
+
+/**
+ * Reject statements that only work on a dedicated server connection. Session
+ * SETs can become `SET LOCAL` inside a transaction; the other features have
+ * transaction-scoped variants (`pg_advisory_xact_lock`, `ON COMMIT DROP`).
+ */
+export function assertPgBouncerSafe(sql: string): void {
+	const feature = sessionFeature(sql);
+	if (feature) {
+		throw new Error(
+			`pgbouncer mode does not support ${feature}: the session state would leak to other clients of the pooler`,
+		);
+	}
+}
@@ -0,0 +1,149 @@
+import type { BunSqlProvider } from "./errors.js";
+import {
+	IDENT_START,
+	isIdentBefore,
+	matchAt,
+	skipComment,
+	skipLiteral,
+} from "./sql-lexer.js";
+
+// SQL text split around its placeholders, ready for Bun.sql's tagged template
+export interface CompiledQuery {
+	strings: TemplateStringsArray;
+	// Argument index (0-based) bound at each placeholder, in text order
+	argOrder: number[];
+}
+
+interface PlaceholderToken {
+	start: number;
+	end: number;
+	// `?`, `$3`/`?3`, or `:name`/`@name`/`$name`
+	kind: "next" | "numbered" | "named";
+	value: string;
+}
+
+const DIGITS = /\d+/y;
+const NAME = /[A-Za-z_\u0080-\uffff][A-Za-z0-9_\u0080-\uffff]*/y;
+
+/**
+ * Find the placeholders of `sql` outside string literals, quoted identifiers,
+ * comments and Postgres dollar-quoted bodies. Postgres yields `$n` and `?`,
+ * MySQL `?`, and SQLite `?`, `?NNN`, `:name`, `@name` and `$name`.
+ */
+export function scanPlaceholders(
+	provider: BunSqlProvider,
+	sql: string,
+): PlaceholderToken[] {
+	const tokens: PlaceholderToken[] = [];
+	let i = 0;
+
+	while (i < sql.length) {
+		let skipped = skipLiteral(provider, sql, i);
+		if (skipped === -1) skipped = skipComment(provider, sql, i);
+		if (skipped !== -1) {
+			i = skipped;
+			continue;
+		}
+
+		const char = sql[i];
+		if (char === "?") {
+			const digits = provider === "sqlite" ? matchAt(DIGITS, sql, i + 1) : null;
+			const end = i + 1 + (digits?.length ?? 0);
+			tokens.push({
+				start: i,
+				end,
+				kind: digits ? "numbered" : "next",
+				value: digits ?? "",
+			});
+			i = end;
+		} else if (char === "$" && provider === "postgres" && !isIdentBefore(sql, i)) {
+			const digits = matchAt(DIGITS, sql, i + 1);
+			if (digits) {
+				const end = i + 1 + digits.length;
+				tokens.push({ start: i, end, kind: "numbered", value: digits });
+				i = end;
+			} else {
+				i++;
+			}
+		} else if (
+			provider === "sqlite" &&
+			(char === ":" || char === "@" || char === "$") &&
+			IDENT_START.test(sql[i + 1] ?? "") &&
+			!isIdentBefore(sql, i)
+		) {
+			const end = i + 1 + matchAt(NAME, sql, i + 1)!.length;
+			tokens.push({ start: i, end, kind: "named", value: sql.slice(i, end) });
+			i = end;
+		} else {
+			i++;
+		}
+	}
+
+	return tokens;
+}
+
+/**
+ * Rewrite the placeholders of `sql` into template slots and check that they
+ * refer to exactly the `argCount` supplied arguments. Numbering follows
+ * SQLite's rules, which also cover the other dialects: `?` takes the number
+ * after the largest one so far, and a repeated name reuses its number.
+ * Postgres only treats `?` as a placeholder when the query has no `$n`,
+ * since `?` is also a jsonb operator.
+ */
+export function compilePlaceholders(
+	provider: BunSqlProvider,
+	sql: string,
+	argCount: number,
+): CompiledQuery {
+	let tokens = scanPlaceholders(provider, sql);
+	if (provider === "postgres") {
+		const numbered = tokens.filter((token) => token.kind === "numbered");
+		tokens = numbered.length ? numbered : tokens;
+	}
+	if (tokens.length === 0 && argCount > 0) {
+		throw new Error(`Query has ${argCount} arguments but no placeholders`);
+	}
+
+	const parts: string[] = [];
+	const argOrder: number[] = [];
+	const names = new Map<string, number>();
+	let highest = 0;
+	let last = 0;
+	for (const token of tokens) {
+		let number: number;
+		if (token.kind === "numbered") {
+			number = Number(token.value);
+		} else if (token.kind === "named" && names.has(token.value)) {
+			number = names.get(token.value)!;
+		} else {
+			number = highest + 1;
+			if (token.kind === "named") names.set(token.value, number);
+		}
+		highest = Math.max(highest, number);
+		if (number < 1 || number > argCount) {
+			const placeholder = sql.slice(token.start, token.end);
+			throw new Error(
+				`Placeholder ${placeholder} has no matching argument (${argCount} given)`,
+			);
+		}
+		parts.push(sql.slice(last, token.start));
+		argOrder.push(number - 1);
+		last = token.end;
+	}
+	parts.push(sql.slice(last));
+
+	const used = new Array<boolean>(argCount).fill(false);
+	for (const index of argOrder) used[index] = true;
+	for (let index = 0; index < argCount; index++) {
+		if (!used[index]) {
+			throw new Error(
+				`Argument ${index + 1} of ${argCount} is not used by any placeholder`,
+			);
+		}
+	}
+
+	return {
+		strings: Object.assign(parts, { raw: parts }) as TemplateStringsArray,
+		argOrder,
+	};
+}
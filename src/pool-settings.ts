@@ -0,0 +1,114 @@
+// Effective pool configuration of an adapter. Timeouts are in seconds, like
+// Bun.sql's own options.
+export interface BunPoolSettings {
+	maxConnections: number;
+	idleTimeout: number;
+	maxLifetime: number;
+	connectionTimeout: number;
+	prepare: boolean;
+	// Seconds to wait for a free connection before failing with P2024 (0 = no limit)
+	poolTimeout: number;
+	// Requests allowed to wait for a connection at once (0 = no limit)
+	queueLimit: number;
+	// Compiled queries kept per adapter, least recently used first out (0 = off)
+	templateCacheSize: number;
+}
+
+export type BunPoolOptions = Partial<BunPoolSettings>;
+
+// Bun.sql's defaults, except for the adapter's historical pool size of 5 and
+// Prisma's 10 second pool timeout
+export const DEFAULT_POOL_SETTINGS: Readonly<BunPoolSettings> = Object.freeze({
+	maxConnections: 5,
+	idleTimeout: 0,
+	maxLifetime: 0,
+	connectionTimeout: 30,
+	prepare: true,
+	poolTimeout: 10,
+	queueLimit: 0,
+	templateCacheSize: 500,
+});
+
+// SQLite runs everything on one connection, and queries wait for it without
+// a limit unless poolTimeout is set
+export const SQLITE_POOL_DEFAULTS: Readonly<BunPoolSettings> = Object.freeze({
+	...DEFAULT_POOL_SETTINGS,
+	maxConnections: 1,
+	poolTimeout: 0,
+});
+
+function nonNegative(name: string, value: number | undefined, fallback: number) {
+	if (value === undefined || value === null) return fallback;
+	if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+		throw new Error(`${name} must be a non-negative number of seconds, got ${value}`);
+	}
+	return value;
+}
+
+/**
+ * Fill unset pool options with defaults and reject values Bun.sql would
+ * silently misinterpret.
+ */
+export function resolvePoolSettings(
+	options: BunPoolOptions = {},
+	defaults: Readonly<BunPoolSettings> = DEFAULT_POOL_SETTINGS,
+): Readonly<BunPoolSettings> {
+	const maxConnections = options.maxConnections ?? defaults.maxConnections;
+	if (!Number.isInteger(maxConnections) || maxConnections < 1) {
+		throw new Error(
+			`maxConnections must be a positive integer, got ${maxConnections}`,
+		);
+	}
+
+	const queueLimit = options.queueLimit ?? defaults.queueLimit;
+	if (!Number.isInteger(queueLimit) || queueLimit < 0) {
+		throw new Error(`queueLimit must be a non-negative integer, got ${queueLimit}`);
+	}
+
+	const templateCacheSize = options.templateCacheSize ?? defaults.templateCacheSize;
+	if (!Number.isInteger(templateCacheSize) || templateCacheSize < 0) {
+		throw new Error(
+			`templateCacheSize must be a non-negative integer, got ${templateCacheSize}`,
+		);
+	}
+
+	return Object.freeze({
+		maxConnections,
+		idleTimeout: nonNegative("idleTimeout", options.idleTimeout, defaults.idleTimeout),
+		maxLifetime: nonNegative("maxLifetime", options.maxLifetime, defaults.maxLifetime),
+		connectionTimeout: nonNegative(
+			"connectionTimeout",
+			options.connectionTimeout,
+			defaults.connectionTimeout,
+		),
+		prepare: options.prepare ?? defaults.prepare,
+		poolTimeout: nonNegative("poolTimeout", options.poolTimeout, defaults.poolTimeout),
+		queueLimit,
+		templateCacheSize,
+	});
+}
+
+// Combine pool options; later sources win, unset values don't override
+export function mergePoolOptions(
+	...sources: Array<BunPoolOptions | undefined>
+): BunPoolOptions {
+	const merged: Record<string, unknown> = {};
+	for (const source of sources) {
+		for (const name of Object.keys(DEFAULT_POOL_SETTINGS)) {
+			const value = (source as Record<string, unknown> | undefined)?.[name];
+			if (value !== undefined) merged[name] = value;
+		}
+	}
+	return merged as BunPoolOptions;
+}
+
+// Pool options in the shape Bun.sql's constructor expects
+export function toBunSqlPoolOptions(settings: BunPoolSettings) {
+	return {
+		max: settings.maxConnections,
+		idleTimeout: settings.idleTimeout,
+		maxLifetime: settings.maxLifetime,
+		connectionTimeout: settings.connectionTimeout,
+		prepare: settings.prepare,
+	};
+}
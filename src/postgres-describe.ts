@@ -0,0 +1,193 @@
+import type { ResultDescription } from "./result-values.js";
+import { PgTypeRegistry } from "./postgres-types.js";
+import { isReadOnlyQuery } from "./replicas.js";
+
+// Runs one statement on the session being described
+export type PgDescribeRunner = (sql: string, args?: unknown[]) => Promise<any[]>;
+
+// Lends a session to `use` for the duration of the call
+export type PgDescribeSession = (
+	use: (run: PgDescribeRunner) => Promise<ResultDescription | null>,
+) => Promise<ResultDescription | null>;
+
+const STATEMENT = "prisma_describe";
+
+// Where statements are described: inside the caller's open transaction, in
+// a transaction of their own (so a pooler keeps them on one server
+// connection), or directly on a reserved session
+export type PgDescribeScope = "savepoint" | "transaction" | "session";
+
+const SCOPE_STATEMENTS: Record<PgDescribeScope, string[]> = {
+	savepoint: [
+		`SAVEPOINT ${STATEMENT}`,
+		`RELEASE SAVEPOINT ${STATEMENT}`,
+		`ROLLBACK TO SAVEPOINT ${STATEMENT}`,
+	],
+	transaction: ["BEGIN", "COMMIT", "ROLLBACK"],
+	session: [],
+};
+
+const SCHEMA_CHANGE_START =
+	/^(?:\s|--[^\n]*(?:\n|$)|\/\*[\s\S]*?\*\/)*(?:CREATE|ALTER|DROP)\b/i;
+
+/**
+ * Result column types of Postgres statements, for clients that don't report
+ * them (Bun.sql). A statement is prepared under a fixed name and its result
+ * types read back from pg_prepared_statements (Postgres 14+), so nothing is
+ * executed; the names of empty read results come from running the read with
+ * LIMIT 0 outer-joined to a single row.
+ */
+export class PgResultDescriber {
+	// Null for statements that couldn't be described
+	private described = new Map<string, ResultDescription | null>();
+	private registry = new PgTypeRegistry();
+	private typesSupported = true;
+	// Concurrent first runs of a statement share one description
+	private pending = new Map<string, Promise<ResultDescription | null>>();
+	// Bumped by clear(), so descriptions started before it aren't cached
+	private generation = 0;
+
+	constructor(private readonly capacity: number) {}
+
+	/**
+	 * Description of `sql`, from the cache or else from statements run in
+	 * `scope` on a session lent by `session`. Null when there's nothing to
+	 * describe or the statement can't be described; failures never reach
+	 * the caller.
+	 */
+	describe(
+		sql: string,
+		args: unknown[],
+		emptyResult: boolean,
+		scope: PgDescribeScope,
+		session: PgDescribeSession,
+	): Promise<ResultDescription | null> {
+		const settled = this.cached(sql, emptyResult);
+		if (settled !== undefined) return Promise.resolve(settled);
+		const key = emptyResult ? `names:${sql}` : sql;
+		let pending = this.pending.get(key);
+		if (!pending) {
+			pending = session((run) => this.describeIn(sql, args, emptyResult, scope, run))
+				.catch(() => null)
+				.finally(() => {
+					if (this.pending.get(key) === pending) this.pending.delete(key);
+				});
+			this.pending.set(key, pending);
+		}
+		return pending;
+	}
+
+	// Cached descriptions may be stale once the schema changed
+	invalidate(sql: string): void {
+		if (SCHEMA_CHANGE_START.test(sql)) this.clear();
+	}
+
+	clear(): void {
+		this.described.clear();
+		this.pending.clear();
+		this.registry.clear();
+		this.generation++;
+	}
+
+	// Null if there's nothing to describe, undefined if it has to be
+	// described first. Empty results need the column names, which only reads
+	// can be asked for.
+	private cached(sql: string, emptyResult: boolean): ResultDescription | null | undefined {
+		if (emptyResult && !isReadOnlyQuery(sql)) return null;
+		const cached = this.described.get(sql);
+		if (cached === null || (cached && (!emptyResult || cached.columnNames))) {
+			return cached;
+		}
+		if (!cached && !this.typesSupported && !emptyResult) return null;
+		return undefined;
+	}
+
+	private async describeIn(
+		sql: string,
+		args: unknown[],
+		emptyResult: boolean,
+		scope: PgDescribeScope,
+		run: PgDescribeRunner,
+	): Promise<ResultDescription | null> {
+		const cached = this.described.get(sql);
+		const generation = this.generation;
+
+		const [begin, commit, rollback] = SCOPE_STATEMENTS[scope];
+		let description: ResultDescription;
+		try {
+			if (begin) await run(begin);
+		} catch {
+			return null;
+		}
+		try {
+			description = {
+				columnTypes: cached?.columnTypes ?? (await this.resultTypes(sql, run)),
+			};
+			if (emptyResult) {
+				description.columnNames = await this.columnNames(sql, args, run);
+			}
+			if (commit) await run(commit);
+		} catch {
+			if (rollback) await run(rollback).catch(() => {});
+			if (scope === "savepoint") await run(commit).catch(() => {});
+			await run(`DEALLOCATE ${STATEMENT}`).catch(() => {});
+			this.remember(sql, null, generation);
+			return null;
+		}
+		this.remember(sql, description, generation);
+		return description;
+	}
+
+	private remember(
+		sql: string,
+		description: ResultDescription | null,
+		generation: number,
+	): void {
+		if (this.capacity <= 0 || generation !== this.generation) return;
+		if (!this.described.has(sql) && this.described.size >= this.capacity) {
+			this.described.delete(this.described.keys().next().value!);
+		}
+		this.described.set(sql, description);
+	}
+
+	private async resultTypes(
+		sql: string,
+		run: PgDescribeRunner,
+	): Promise<ResultDescription["columnTypes"]> {
+		if (!this.typesSupported) return [];
+		await run(`PREPARE ${STATEMENT} AS ${sql}`);
+		let oids: number[];
+		try {
+			const [row] = await run(
+				`SELECT array_to_string(result_types::oid[], ',') AS oids FROM pg_catalog.pg_prepared_statements WHERE name = '${STATEMENT}'`,
+			);
+			if (typeof row?.oids !== "string") {
+				throw new Error("result_types not reported");
+			}
+			oids = row.oids === "" ? [] : row.oids.split(",").map(Number);
+		} catch (error) {
+			// Before Postgres 14 pg_prepared_statements has no result_types
+			this.typesSupported = false;
+			throw error;
+		} finally {
+			await run(`DEALLOCATE ${STATEMENT}`);
+		}
+
+		if (this.registry.needsLookup(oids)) {
+			await this.registry.resolve(oids, (query) => run(query));
+		}
+		return oids.map((oid) => this.registry.columnType(oid));
+	}
+
+	private async columnNames(
+		sql: string,
+		args: unknown[],
+		run: PgDescribeRunner,
+	): Promise<string[]> {
+		const [row] = await run(
+			`SELECT ${STATEMENT}.* FROM (SELECT 1) AS d LEFT JOIN (SELECT * FROM (${sql}) AS q LIMIT 0) AS ${STATEMENT} ON true`,
+			args,
+		);
+		return Object.keys(row ?? {});
+	}
+}
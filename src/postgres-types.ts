@@ -0,0 +1,329 @@
+import { ColumnType, ColumnTypeEnum } from "@prisma/driver-adapter-utils";
+
+// Built-in type OIDs from pg_type.dat
+const PgOid = {
+	BOOL: 16,
+	BYTEA: 17,
+	CHAR: 18,
+	NAME: 19,
+	INT8: 20,
+	INT2: 21,
+	INT4: 23,
+	TEXT: 25,
+	OID: 26,
+	JSON: 114,
+	XML: 142,
+	CIDR: 650,
+	FLOAT4: 700,
+	FLOAT8: 701,
+	UNKNOWN: 705,
+	MONEY: 790,
+	MACADDR: 829,
+	INET: 869,
+	BPCHAR: 1042,
+	VARCHAR: 1043,
+	DATE: 1082,
+	TIME: 1083,
+	TIMESTAMP: 1114,
+	TIMESTAMPTZ: 1184,
+	INTERVAL: 1186,
+	TIMETZ: 1266,
+	BIT: 1560,
+	VARBIT: 1562,
+	NUMERIC: 1700,
+	VOID: 2278,
+	UUID: 2950,
+	JSONB: 3802,
+
+	BOOL_ARRAY: 1000,
+	BYTEA_ARRAY: 1001,
+	CHAR_ARRAY: 1002,
+	NAME_ARRAY: 1003,
+	INT2_ARRAY: 1005,
+	INT4_ARRAY: 1007,
+	TEXT_ARRAY: 1009,
+	BPCHAR_ARRAY: 1014,
+	VARCHAR_ARRAY: 1015,
+	INT8_ARRAY: 1016,
+	FLOAT4_ARRAY: 1021,
+	FLOAT8_ARRAY: 1022,
+	OID_ARRAY: 1028,
+	MACADDR_ARRAY: 1040,
+	INET_ARRAY: 1041,
+	TIMESTAMP_ARRAY: 1115,
+	DATE_ARRAY: 1182,
+	TIME_ARRAY: 1183,
+	TIMESTAMPTZ_ARRAY: 1185,
+	INTERVAL_ARRAY: 1187,
+	NUMERIC_ARRAY: 1231,
+	TIMETZ_ARRAY: 1270,
+	BIT_ARRAY: 1561,
+	VARBIT_ARRAY: 1563,
+	XML_ARRAY: 143,
+	JSON_ARRAY: 199,
+	CIDR_ARRAY: 651,
+	MONEY_ARRAY: 791,
+	UUID_ARRAY: 2951,
+	JSONB_ARRAY: 3807,
+} as const;
+
+const BUILTIN_COLUMN_TYPES: Record<number, ColumnType> = {
+	[PgOid.INT2]: ColumnTypeEnum.Int32,
+	[PgOid.INT4]: ColumnTypeEnum.Int32,
+	[PgOid.INT8]: ColumnTypeEnum.Int64,
+	[PgOid.OID]: ColumnTypeEnum.Int64,
+	[PgOid.FLOAT4]: ColumnTypeEnum.Float,
+	[PgOid.FLOAT8]: ColumnTypeEnum.Double,
+	[PgOid.NUMERIC]: ColumnTypeEnum.Numeric,
+	// Bun.sql returns money formatted with the currency symbol
+	[PgOid.MONEY]: ColumnTypeEnum.Text,
+	[PgOid.BOOL]: ColumnTypeEnum.Boolean,
+	[PgOid.CHAR]: ColumnTypeEnum.Character,
+	[PgOid.BPCHAR]: ColumnTypeEnum.Text,
+	[PgOid.TEXT]: ColumnTypeEnum.Text,
+	[PgOid.VARCHAR]: ColumnTypeEnum.Text,
+	[PgOid.NAME]: ColumnTypeEnum.Text,
+	[PgOid.XML]: ColumnTypeEnum.Text,
+	[PgOid.INET]: ColumnTypeEnum.Text,
+	[PgOid.CIDR]: ColumnTypeEnum.Text,
+	[PgOid.MACADDR]: ColumnTypeEnum.Text,
+	[PgOid.BIT]: ColumnTypeEnum.Text,
+	[PgOid.VARBIT]: ColumnTypeEnum.Text,
+	[PgOid.INTERVAL]: ColumnTypeEnum.Text,
+	[PgOid.UNKNOWN]: ColumnTypeEnum.Text,
+	[PgOid.VOID]: ColumnTypeEnum.Text,
+	[PgOid.DATE]: ColumnTypeEnum.Date,
+	[PgOid.TIME]: ColumnTypeEnum.Time,
+	[PgOid.TIMETZ]: ColumnTypeEnum.Time,
+	[PgOid.TIMESTAMP]: ColumnTypeEnum.DateTime,
+	[PgOid.TIMESTAMPTZ]: ColumnTypeEnum.DateTime,
+	[PgOid.JSON]: ColumnTypeEnum.Json,
+	[PgOid.JSONB]: ColumnTypeEnum.Json,
+	[PgOid.UUID]: ColumnTypeEnum.Uuid,
+	[PgOid.BYTEA]: ColumnTypeEnum.Bytes,
+
+	[PgOid.INT2_ARRAY]: ColumnTypeEnum.Int32Array,
+	[PgOid.INT4_ARRAY]: ColumnTypeEnum.Int32Array,
+	[PgOid.INT8_ARRAY]: ColumnTypeEnum.Int64Array,
+	[PgOid.OID_ARRAY]: ColumnTypeEnum.Int64Array,
+	[PgOid.FLOAT4_ARRAY]: ColumnTypeEnum.FloatArray,
+	[PgOid.FLOAT8_ARRAY]: ColumnTypeEnum.DoubleArray,
+	[PgOid.NUMERIC_ARRAY]: ColumnTypeEnum.NumericArray,
+	[PgOid.MONEY_ARRAY]: ColumnTypeEnum.TextArray,
+	[PgOid.BOOL_ARRAY]: ColumnTypeEnum.BooleanArray,
+	[PgOid.CHAR_ARRAY]: ColumnTypeEnum.CharacterArray,
+	[PgOid.BPCHAR_ARRAY]: ColumnTypeEnum.TextArray,
+	[PgOid.TEXT_ARRAY]: ColumnTypeEnum.TextArray,
+	[PgOid.VARCHAR_ARRAY]: ColumnTypeEnum.TextArray,
+	[PgOid.NAME_ARRAY]: ColumnTypeEnum.TextArray,
+	[PgOid.XML_ARRAY]: ColumnTypeEnum.TextArray,
+	[PgOid.INET_ARRAY]: ColumnTypeEnum.TextArray,
+	[PgOid.CIDR_ARRAY]: ColumnTypeEnum.TextArray,
+	[PgOid.MACADDR_ARRAY]: ColumnTypeEnum.TextArray,
+	[PgOid.BIT_ARRAY]: ColumnTypeEnum.TextArray,
+	[PgOid.VARBIT_ARRAY]: ColumnTypeEnum.TextArray,
+	[PgOid.INTERVAL_ARRAY]: ColumnTypeEnum.TextArray,
+	[PgOid.DATE_ARRAY]: ColumnTypeEnum.DateArray,
+	[PgOid.TIME_ARRAY]: ColumnTypeEnum.TimeArray,
+	[PgOid.TIMETZ_ARRAY]: ColumnTypeEnum.TimeArray,
+	[PgOid.TIMESTAMP_ARRAY]: ColumnTypeEnum.DateTimeArray,
+	[PgOid.TIMESTAMPTZ_ARRAY]: ColumnTypeEnum.DateTimeArray,
+	[PgOid.JSON_ARRAY]: ColumnTypeEnum.JsonArray,
+	[PgOid.JSONB_ARRAY]: ColumnTypeEnum.JsonArray,
+	[PgOid.UUID_ARRAY]: ColumnTypeEnum.UuidArray,
+	[PgOid.BYTEA_ARRAY]: ColumnTypeEnum.BytesArray,
+};
+
+// Scalar type -> matching array type, used for arrays of enums/domains
+const ARRAY_OF: Partial<Record<ColumnType, ColumnType>> = {
+	[ColumnTypeEnum.Int32]: ColumnTypeEnum.Int32Array,
+	[ColumnTypeEnum.Int64]: ColumnTypeEnum.Int64Array,
+	[ColumnTypeEnum.Float]: ColumnTypeEnum.FloatArray,
+	[ColumnTypeEnum.Double]: ColumnTypeEnum.DoubleArray,
+	[ColumnTypeEnum.Numeric]: ColumnTypeEnum.NumericArray,
+	[ColumnTypeEnum.Boolean]: ColumnTypeEnum.BooleanArray,
+	[ColumnTypeEnum.Character]: ColumnTypeEnum.CharacterArray,
+	[ColumnTypeEnum.Text]: ColumnTypeEnum.TextArray,
+	[ColumnTypeEnum.Date]: ColumnTypeEnum.DateArray,
+	[ColumnTypeEnum.Time]: ColumnTypeEnum.TimeArray,
+	[ColumnTypeEnum.DateTime]: ColumnTypeEnum.DateTimeArray,
+	[ColumnTypeEnum.Json]: ColumnTypeEnum.JsonArray,
+	[ColumnTypeEnum.Enum]: ColumnTypeEnum.EnumArray,
+	[ColumnTypeEnum.Bytes]: ColumnTypeEnum.BytesArray,
+	[ColumnTypeEnum.Uuid]: ColumnTypeEnum.UuidArray,
+};
+
+interface PgTypeRow {
+	oid: number;
+	typtype: string;
+	typbasetype: number;
+	typelem: number;
+	typcategory: string;
+}
+
+export type PgCatalogQuery = (sql: string) => Promise<any[]>;
+
+export function isBuiltinPgOid(oid: number): boolean {
+	return oid in BUILTIN_COLUMN_TYPES;
+}
+
+/**
+ * Per-adapter registry mapping type OIDs to Prisma column types. Built-in
+ * types are resolved from a static table; enums, domains and arrays of
+ * those are looked up once in pg_type and cached.
+ */
+export class PgTypeRegistry {
+	private resolved = new Map<number, ColumnType | null>();
+
+	columnType(oid: number): ColumnType | null {
+		const builtin = BUILTIN_COLUMN_TYPES[oid];
+		if (builtin !== undefined) {
+			return builtin;
+		}
+		return this.resolved.get(oid) ?? null;
+	}
+
+	needsLookup(oids: number[]): boolean {
+		for (const oid of oids) {
+			if (!isBuiltinPgOid(oid) && !this.resolved.has(oid)) {
+				return true;
+			}
+		}
+		return false;
+	}
+
+	async resolve(oids: number[], query: PgCatalogQuery): Promise<void> {
+		const rows = new Map<number, PgTypeRow>();
+		let pending = oids.filter(
+			(oid) => !isBuiltinPgOid(oid) && !this.resolved.has(oid),
+		);
+
+		// Walk domain base types and array element types until everything
+		// bottoms out in a built-in type (bounded to avoid cycles)
+		for (let depth = 0; pending.length > 0 && depth < 8; depth++) {
+			const list = Array.from(new Set(pending))
+				.filter((oid) => Number.isInteger(oid))
+				.join(",");
+			const found = await query(
+				`SELECT oid::int4 AS oid, typtype::text AS typtype, typbasetype::int4 AS typbasetype, typelem::int4 AS typelem, typcategory::text AS typcategory FROM pg_catalog.pg_type WHERE oid IN (${list})`,
+			);
+			pending = [];
+			for (const row of found) {
+				const entry: PgTypeRow = {
+					oid: Number(row.oid),
+					typtype: String(row.typtype),
+					typbasetype: Number(row.typbasetype),
+					typelem: Number(row.typelem),
+					typcategory: String(row.typcategory),
+				};
+				rows.set(entry.oid, entry);
+				for (const next of [entry.typbasetype, entry.typelem]) {
+					if (next && !isBuiltinPgOid(next) && !rows.has(next)) {
+						pending.push(next);
+					}
+				}
+			}
+		}
+
+		const visit = (oid: number, depth: number): ColumnType | null => {
+			const builtin = BUILTIN_COLUMN_TYPES[oid];
+			if (builtin !== undefined) return builtin;
+			if (this.resolved.has(oid)) return this.resolved.get(oid) ?? null;
+			const row = rows.get(oid);
+			if (!row || depth > 8) return null;
+			if (row.typtype === "e") return ColumnTypeEnum.Enum;
+			if (row.typtype === "d") return visit(row.typbasetype, depth + 1);
+			if (row.typcategory === "A" && row.typelem) {
+				const element = visit(row.typelem, depth + 1);
+				return element !== null ? (ARRAY_OF[element] ?? null) : null;
+			}
+			return null;
+		};
+
+		for (const oid of oids) {
+			if (!isBuiltinPgOid(oid) && !this.resolved.has(oid)) {
+				this.resolved.set(oid, visit(oid, 0));
+			}
+		}
+	}
+
+	clear(): void {
+		this.resolved.clear();
+	}
+}
+
+const ARRAY_COLUMN_TYPES: ReadonlySet<ColumnType> = new Set(Object.values(ARRAY_OF));
+
+// Elements of a one-dimensional array literal such as {a,"b c",NULL}.
+// Multidimensional arrays are returned unchanged.
+function parsePgArray(literal: string): unknown {
+	if (!literal.startsWith("{") || !literal.endsWith("}")) return literal;
+	const items: Array<string | null> = [];
+	const end = literal.length - 1;
+	let i = 1;
+	while (i < end) {
+		if (literal[i] === '"') {
+			let item = "";
+			for (i++; i < end && literal[i] !== '"'; i++) {
+				if (literal[i] === "\\") i++;
+				item += literal[i];
+			}
+			items.push(item);
+			i++;
+		} else {
+			const comma = literal.indexOf(",", i);
+			const stop = comma === -1 ? end : comma;
+			const item = literal.slice(i, stop);
+			if (item.startsWith("{")) return literal;
+			items.push(item === "NULL" ? null : item);
+			i = stop;
+		}
+		if (literal[i] === ",") i++;
+	}
+	return items;
+}
+
+/**
+ * Normalize a value decoded by Bun.sql into the representation Prisma
+ * expects for the column's type.
+ */
+export function serializePgValue(type: ColumnType, value: unknown): unknown {
+	if (value === null || value === undefined) {
+		return value;
+	}
+	// Bun.sql leaves arrays of some types (uuid[], enum arrays) as literals
+	if (typeof value === "string" && ARRAY_COLUMN_TYPES.has(type)) {
+		value = parsePgArray(value);
+	}
+
+	switch (type) {
+		case ColumnTypeEnum.Int64:
+			return typeof value === "number" || typeof value === "bigint"
+				? value.toString()
+				: value;
+		case ColumnTypeEnum.Date:
+			return value instanceof Date ? value.toISOString().slice(0, 10) : value;
+		case ColumnTypeEnum.Int64Array:
+			return Array.isArray(value)
+				? value.map((v) =>
+						typeof v === "number" || typeof v === "bigint" ? v.toString() : v,
+					)
+				: value;
+		case ColumnTypeEnum.DateArray:
+			return Array.isArray(value)
+				? value.map((v) =>
+						v instanceof Date ? v.toISOString().slice(0, 10) : v,
+					)
+				: value;
+		case ColumnTypeEnum.DateTimeArray:
+			return Array.isArray(value)
+				? value.map((v) => (v instanceof Date ? v.toISOString() : v))
+				: value;
+		case ColumnTypeEnum.JsonArray:
+			return Array.isArray(value)
+				? value.map((v) => (typeof v === "string" ? v : JSON.stringify(v)))
+				: value;
+		default:
+			return value;
+	}
+}
@@ -0,0 +1,187 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import {
+	isDriverAdapterError,
+	type SqlQuery,
+	type SqlResultSet,
+} from "@prisma/driver-adapter-utils";
+import { PoolTimeoutError } from "./errors.js";
+
+export interface BunReplicaOptions {
+	// Seconds reads stay on the primary after a write in the same async
+	// context (default 1, 0 disables)
+	stickyPrimary?: number;
+	// Seconds a failing replica is skipped before it is tried again (default 30)
+	retryAfter?: number;
+}
+
+// A driver adapter connected to one replica
+export interface ReplicaTarget {
+	queryRaw(query: SqlQuery): Promise<SqlResultSet>;
+	dispose(): Promise<void>;
+}
+
+interface RoutingSession {
+	lastWriteAt: number;
+}
+
+interface RoutingContext {
+	session: RoutingSession;
+	forcePrimary: boolean;
+}
+
+const routingContext = new AsyncLocalStorage<RoutingContext>();
+
+/**
+ * Run `fn` in its own read-your-writes scope, e.g. one per HTTP request:
+ * after a write inside it, its reads stay on the primary for the sticky
+ * window. Writes outside any scope pin every read of the adapter instead.
+ */
+export function withReplicaSession<T>(fn: () => T): T {
+	return routingContext.run(
+		{ session: { lastWriteAt: 0 }, forcePrimary: false },
+		fn,
+	);
+}
+
+// Run `fn` with every query sent to the primary
+export function withPrimary<T>(fn: () => T): T {
+	const current = routingContext.getStore();
+	return routingContext.run(
+		{ session: current?.session ?? { lastWriteAt: 0 }, forcePrimary: true },
+		fn,
+	);
+}
+
+// Statements that can't modify data or take row locks. Anything else, and
+// anything mentioning a write keyword anywhere, is treated as a write.
+const READ_START = /^(?:\s|\(|--[^\n]*\n|\/\*[\s\S]*?\*\/)*(SELECT|WITH|SHOW|VALUES|TABLE|EXPLAIN)\b/i;
+const WRITE_HINT =
+	/\b(INSERT|UPDATE|DELETE|MERGE|UPSERT|REPLACE|CREATE|ALTER|DROP|TRUNCATE|GRANT|REVOKE|LOCK|COPY|CALL|INTO|ANALYZE|NEXTVAL|SETVAL|FOR\s+SHARE|FOR\s+KEY\s+SHARE)\b/i;
+
+export function isReadOnlyQuery(sql: string): boolean {
+	return READ_START.test(sql) && !WRITE_HINT.test(sql);
+}
+
+// Failures that say the replica itself is unusable right now
+const UNHEALTHY_KINDS = new Set([
+	"DatabaseNotReachable",
+	"ConnectionClosed",
+	"SocketTimeout",
+	"TooManyConnections",
+]);
+const UNHEALTHY_CODES =
+	/^(ERR_(POSTGRES|MYSQL)_(CONNECTION|SOCKET)|E(CONNREFUSED|CONNRESET|NOTFOUND|TIMEDOUT|PIPE)$|08|57P0)/;
+
+// The query reached a replica that refuses writes (Postgres 25006, MySQL
+// 1290 --read-only); the primary can still run it
+function isReadOnlyViolation(cause: any): boolean {
+	return (
+		(cause?.kind === "postgres" && cause.code === "25006") ||
+		(cause?.kind === "mysql" && cause.code === 1290)
+	);
+}
+
+function isUnhealthy(error: any): boolean {
+	const cause = isDriverAdapterError(error) ? (error.cause as any) : null;
+	if (cause && UNHEALTHY_KINDS.has(cause.kind)) return true;
+	const code = String(cause?.originalCode ?? cause?.code ?? error?.code ?? "");
+	return UNHEALTHY_CODES.test(code);
+}
+
+interface ReplicaState {
+	target: ReplicaTarget;
+	inFlight: number;
+	downUntil: number;
+}
+
+/**
+ * Sends reads outside transactions to replicas. A replica is picked among the
+ * healthy ones by fewest in-flight queries (ties rotate); connection failures
+ * take it out of rotation for `retryAfter` seconds and the read is retried on
+ * the primary.
+ */
+export class ReplicaRouter {
+	private replicas: ReplicaState[];
+	private next = 0;
+	private lastWriteAt = 0;
+	private readonly stickyMs: number;
+	private readonly retryAfterMs: number;
+
+	constructor(targets: ReplicaTarget[], options: BunReplicaOptions = {}) {
+		const stickyPrimary = options.stickyPrimary ?? 1;
+		const retryAfter = options.retryAfter ?? 30;
+		for (const [name, value] of [
+			["stickyPrimary", stickyPrimary],
+			["retryAfter", retryAfter],
+		] as const) {
+			if (!Number.isFinite(value) || value < 0) {
+				throw new Error(`${name} must be a non-negative number of seconds, got ${value}`);
+			}
+		}
+		this.stickyMs = stickyPrimary * 1000;
+		this.retryAfterMs = retryAfter * 1000;
+		this.replicas = targets.map((target) => ({ target, inFlight: 0, downUntil: 0 }));
+	}
+
+	get size(): number {
+		return this.replicas.length;
+	}
+
+	// Whether `sql` may run on a replica in the current async context
+	routesToReplica(sql: string): boolean {
+		const context = routingContext.getStore();
+		if (context?.forcePrimary) return false;
+		const lastWriteAt = context ? context.session.lastWriteAt : this.lastWriteAt;
+		if (Date.now() - lastWriteAt < this.stickyMs) return false;
+		return isReadOnlyQuery(sql);
+	}
+
+	// Start the sticky-primary window of the current async context
+	recordWrite(): void {
+		const context = routingContext.getStore();
+		if (context) context.session.lastWriteAt = Date.now();
+		else this.lastWriteAt = Date.now();
+	}
+
+	async queryRaw(
+		query: SqlQuery,
+		primary: () => Promise<SqlResultSet>,
+	): Promise<SqlResultSet> {
+		const replica = this.pick();
+		if (!replica) return primary();
+
+		replica.inFlight++;
+		try {
+			return await replica.target.queryRaw(query);
+		} catch (error) {
+			const cause = isDriverAdapterError(error) ? error.cause : null;
+			if (isUnhealthy(error)) {
+				replica.downUntil = Date.now() + this.retryAfterMs;
+				return primary();
+			}
+			if (error instanceof PoolTimeoutError || isReadOnlyViolation(cause)) {
+				return primary();
+			}
+			throw error;
+		} finally {
+			replica.inFlight--;
+		}
+	}
+
+	async dispose(): Promise<void> {
+		await Promise.all(this.replicas.map((replica) => replica.target.dispose()));
+	}
+
+	private pick(): ReplicaState | null {
+		const now = Date.now();
+		const count = this.replicas.length;
+		let best: ReplicaState | null = null;
+		for (let i = 0; i < count; i++) {
+			const replica = this.replicas[(this.next + i) % count];
+			if (replica.downUntil > now) continue;
+			if (!best || replica.inFlight < best.inFlight) best = replica;
+		}
+		this.next = (this.next + 1) % Math.max(count, 1);
+		return best;
+	}
+}
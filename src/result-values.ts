@@ -0,0 +1,216 @@
+import { ColumnType, ColumnTypeEnum } from "@prisma/driver-adapter-utils";
+
+// Pre-compiled column type matchers for better performance
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+const DATETIME_REGEX = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}/;
+const UUID_REGEX =
+	/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const ARRAY_TYPES: Record<number, ColumnType> = {
+	[ColumnTypeEnum.Int32]: ColumnTypeEnum.Int32Array,
+	[ColumnTypeEnum.Int64]: ColumnTypeEnum.Int64Array,
+	[ColumnTypeEnum.Float]: ColumnTypeEnum.FloatArray,
+	[ColumnTypeEnum.Double]: ColumnTypeEnum.DoubleArray,
+	[ColumnTypeEnum.Numeric]: ColumnTypeEnum.NumericArray,
+	[ColumnTypeEnum.Boolean]: ColumnTypeEnum.BooleanArray,
+	[ColumnTypeEnum.Character]: ColumnTypeEnum.CharacterArray,
+	[ColumnTypeEnum.Text]: ColumnTypeEnum.TextArray,
+	[ColumnTypeEnum.Date]: ColumnTypeEnum.DateArray,
+	[ColumnTypeEnum.Time]: ColumnTypeEnum.TimeArray,
+	[ColumnTypeEnum.DateTime]: ColumnTypeEnum.DateTimeArray,
+	[ColumnTypeEnum.Json]: ColumnTypeEnum.JsonArray,
+	[ColumnTypeEnum.Enum]: ColumnTypeEnum.EnumArray,
+	[ColumnTypeEnum.Bytes]: ColumnTypeEnum.BytesArray,
+	[ColumnTypeEnum.Uuid]: ColumnTypeEnum.UuidArray,
+};
+
+// First non-null value of a column, so a leading NULL doesn't decide its type
+export function firstNonNull(result: any[], name: string): unknown {
+	for (let r = 0; r < result.length; r++) {
+		const v = result[r][name];
+		if (v !== null && v !== undefined) return v;
+	}
+	return null;
+}
+
+export function inferValueType(value: unknown): ColumnType {
+	if (value === null || value === undefined) {
+		return ColumnTypeEnum.UnknownNumber;
+	}
+
+	// Most common cases first
+	switch (typeof value) {
+		case "boolean":
+			return ColumnTypeEnum.Boolean;
+		case "number":
+			return Number.isInteger(value)
+				? ColumnTypeEnum.Int32
+				: ColumnTypeEnum.Double;
+		case "bigint":
+			return ColumnTypeEnum.Int64;
+		case "string":
+			if (DATETIME_REGEX.test(value)) {
+				return ColumnTypeEnum.DateTime;
+			}
+			if (DATE_REGEX.test(value)) {
+				return ColumnTypeEnum.Date;
+			}
+			if (UUID_REGEX.test(value)) {
+				return ColumnTypeEnum.Uuid;
+			}
+			return ColumnTypeEnum.Text;
+		case "object":
+			if (value instanceof Date) {
+				return ColumnTypeEnum.DateTime;
+			}
+			if (Buffer.isBuffer(value)) {
+				return ColumnTypeEnum.Bytes;
+			}
+			return ColumnTypeEnum.Json;
+		default:
+			return ColumnTypeEnum.UnknownNumber;
+	}
+}
+
+/**
+ * Column types of a Bun.sql result, inferred from its values. Arrays take
+ * the array type of their first element, and columns holding other objects
+ * are JSON.
+ */
+export function inferColumnTypes(
+	result: any[],
+	columnNames: string[],
+): ColumnType[] {
+	const columnCount = columnNames.length;
+	const types = new Array(columnCount) as ColumnType[];
+
+	for (let i = 0; i < columnCount; i++) {
+		const name = columnNames[i];
+
+		let hasArray = false;
+		let hasOtherObjects = false;
+		let arrayElementType: ColumnType | null = null;
+
+		for (let r = 0; r < result.length; r++) {
+			const v = result[r][name];
+			if (v === null || v === undefined) continue;
+
+			if (Array.isArray(v)) {
+				hasArray = true;
+				if (v.length > 0 && arrayElementType === null) {
+					arrayElementType = inferValueType(v[0]);
+				}
+				break;
+			} else if (
+				typeof v === "object" &&
+				!(v instanceof Date) &&
+				!Buffer.isBuffer(v)
+			) {
+				hasOtherObjects = true;
+			}
+		}
+
+		if (hasArray && arrayElementType !== null) {
+			types[i] = ARRAY_TYPES[arrayElementType] ?? ColumnTypeEnum.JsonArray;
+		} else if (hasArray) {
+			// Empty array or couldn't determine type
+			types[i] = ColumnTypeEnum.JsonArray;
+		} else if (hasOtherObjects) {
+			types[i] = ColumnTypeEnum.Json;
+		} else {
+			types[i] = inferValueType(firstNonNull(result, name));
+		}
+	}
+
+	return types;
+}
+
+/**
+ * Column types and names of a statement as reported by the database, for
+ * drivers whose results don't carry them. Types the adapter can't map are
+ * null; names are only known for described reads.
+ */
+export interface ResultDescription {
+	columnTypes: Array<ColumnType | null>;
+	columnNames?: string[];
+}
+
+/**
+ * Described types by position, where they line up with the result's keys.
+ * Duplicate names collapse and integer-like keys are reordered in result
+ * objects, so such results keep their inferred types.
+ */
+export function applyDescribedTypes(
+	description: ResultDescription | null,
+	columnNames: string[],
+	inferred: ColumnType[],
+): ColumnType[] {
+	if (!description) return inferred;
+	const { columnTypes, columnNames: names } = description;
+	if (
+		columnTypes.length !== columnNames.length ||
+		columnNames.some((name, i) => /^\d+$/.test(name) || (names && names[i] !== name))
+	) {
+		return inferred;
+	}
+	return columnTypes.map((type, i) => type ?? inferred[i]);
+}
+
+function isJsonishString(s: string): boolean {
+	const t = s.trim();
+	if (!t) return false;
+	if (t.startsWith("{") || t.startsWith("[")) return true;
+	return t.startsWith('"') && t.endsWith('"');
+}
+
+function toJsonString(value: unknown): string {
+	if (value === null || value === undefined) return "null";
+	if (typeof value === "string") {
+		return isJsonishString(value) ? value : JSON.stringify(value);
+	}
+	if (typeof value === "number" || typeof value === "boolean") {
+		return JSON.stringify(value);
+	}
+	if (value instanceof Date) return JSON.stringify(value.toISOString());
+	if (Buffer.isBuffer(value)) {
+		return JSON.stringify(Array.from(value as unknown as Uint8Array));
+	}
+	try {
+		return JSON.stringify(value);
+	} catch {
+		return "null";
+	}
+}
+
+/**
+ * Prisma's representation of a value of a column of the given type: JSON
+ * columns as JSON text, bigints and dates as strings. Arrays stay arrays,
+ * since Prisma maps over the values of array columns.
+ */
+export function serializeResultValue(type: ColumnType, value: unknown): unknown {
+	if (type === ColumnTypeEnum.Json) return toJsonString(value);
+	if (value === null || value === undefined) {
+		return value;
+	}
+
+	switch (typeof value) {
+		case "string":
+		case "number":
+		case "boolean":
+			return value;
+		case "bigint":
+			return value.toString();
+	}
+	if (value instanceof Date) {
+		return value.toISOString();
+	}
+	if (Buffer.isBuffer(value) || Array.isArray(value)) {
+		return value;
+	}
+
+	try {
+		return JSON.stringify(value);
+	} catch {
+		return String(value);
+	}
+}
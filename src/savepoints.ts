@@ -0,0 +1,117 @@
+import type { Transaction } from "@prisma/driver-adapter-utils";
+
+/**
+ * Transaction with nested scopes. The savepoint methods match the optional
+ * ones of Prisma's newer driver adapter API; names are generated from the
+ * nesting depth when omitted, and default to the innermost savepoint.
+ */
+export interface BunTransaction extends Transaction {
+	readonly savepointDepth: number;
+	createSavepoint(name?: string): Promise<string>;
+	rollbackToSavepoint(name?: string): Promise<void>;
+	releaseSavepoint(name?: string): Promise<void>;
+	// Run `fn` in a nested scope that is rolled back alone if it throws
+	savepoint<T>(fn: () => Promise<T>): Promise<T>;
+}
+
+const SAVEPOINT_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+interface Scope {
+	name: string;
+	failed: boolean;
+}
+
+// A DriverAdapterError's cause is its mapped error kind and stays as it is
+function attachCause(error: unknown, cause: unknown): void {
+	if (error instanceof Error && error.cause === undefined) error.cause = cause;
+}
+
+/**
+ * Savepoint bookkeeping of one transaction. A failed statement only marks
+ * the innermost open scope, so rolling back to that scope's savepoint makes
+ * the transaction committable again. Postgres, MySQL and SQLite share the
+ * SAVEPOINT / ROLLBACK TO SAVEPOINT / RELEASE SAVEPOINT syntax.
+ */
+export class SavepointStack {
+	private scopes: Scope[] = [];
+	private rootFailed = false;
+
+	constructor(private readonly run: (sql: string) => Promise<unknown>) {}
+
+	get depth(): number {
+		return this.scopes.length;
+	}
+
+	// True when some statement failed and no rollback has undone it
+	get failed(): boolean {
+		return this.rootFailed || this.scopes.some((scope) => scope.failed);
+	}
+
+	markFailed(): void {
+		const current = this.scopes[this.scopes.length - 1];
+		if (current) current.failed = true;
+		else this.rootFailed = true;
+	}
+
+	async create(name = `prisma_sp_${this.depth + 1}`): Promise<string> {
+		if (!SAVEPOINT_NAME.test(name)) {
+			throw new Error(`Invalid savepoint name: ${name}`);
+		}
+		if (this.scopes.some((scope) => scope.name === name)) {
+			throw new Error(`Savepoint ${name} already exists`);
+		}
+		await this.run(`SAVEPOINT ${name}`);
+		this.scopes.push({ name, failed: false });
+		return name;
+	}
+
+	// Undo everything since the savepoint; the savepoint itself stays open
+	async rollbackTo(name?: string): Promise<void> {
+		const index = this.indexOf(name);
+		await this.run(`ROLLBACK TO SAVEPOINT ${this.scopes[index].name}`);
+		this.scopes.length = index + 1;
+		this.scopes[index].failed = false;
+	}
+
+	// Merge the savepoint (and any inner ones) into the enclosing scope
+	async release(name?: string): Promise<void> {
+		const index = this.indexOf(name);
+		const released = this.scopes.slice(index);
+		await this.run(`RELEASE SAVEPOINT ${released[0].name}`);
+		this.scopes.length = index;
+		if (released.some((scope) => scope.failed)) this.markFailed();
+	}
+
+	// A failure to roll back the scope is attached to the scope's own error as
+	// its cause, so the error that aborted the scope is the one reported
+	async scoped<T>(fn: () => Promise<T>): Promise<T> {
+		const name = await this.create();
+		let result: T;
+		try {
+			result = await fn();
+		} catch (error) {
+			try {
+				await this.rollbackTo(name);
+				await this.release(name);
+			} catch (rollbackError) {
+				attachCause(error, rollbackError);
+			}
+			throw error;
+		}
+		await this.release(name);
+		return result;
+	}
+
+	private indexOf(name: string | undefined): number {
+		const index =
+			name === undefined
+				? this.scopes.length - 1
+				: this.scopes.findIndex((scope) => scope.name === name);
+		if (index < 0) {
+			throw new Error(
+				name === undefined ? "No open savepoint" : `Unknown savepoint: ${name}`,
+			);
+		}
+		return index;
+	}
+}
@@ -0,0 +1,184 @@
+import { isDriverAdapterError } from "@prisma/driver-adapter-utils";
+import { type BunSqlProvider, ScriptError } from "./errors.js";
+import { matchAt, skipComment, skipLiteral } from "./sql-lexer.js";
+import { transactionStartStatements } from "./transaction-start.js";
+
+export interface ScriptStatement {
+	sql: string;
+	// 1-based line of the script where the statement starts
+	line: number;
+}
+
+export interface BunScriptOptions {
+	// Run every statement in one transaction, rolled back if any of them fails
+	transaction?: boolean;
+}
+
+const WORD = /[A-Za-z_\u0080-\uffff][A-Za-z0-9_$\u0080-\uffff]*/y;
+const ATOMIC = /\s+ATOMIC\b/iy;
+// mysql client command; the rest of its line is ignored
+const DELIMITER_COMMAND = /DELIMITER[ \t]+(\S+)[^\n]*\n?/iy;
+
+// CREATE [TEMP|TEMPORARY] TRIGGER
+function isTrigger(head: string[]): boolean {
+	if (head[0] !== "CREATE") return false;
+	if (head[1] === "TRIGGER") return true;
+	return (head[1] === "TEMP" || head[1] === "TEMPORARY") && head[2] === "TRIGGER";
+}
+
+/**
+ * Split a script into statements at the semicolons that end them. Semicolons
+ * inside literals, quoted identifiers, comments and parentheses, Postgres
+ * dollar-quoted and `BEGIN ATOMIC ... END` bodies, and SQLite trigger bodies
+ * don't split. MySQL scripts may switch the terminator with the mysql
+ * client's `DELIMITER` command, as stored programs need. Statements keep no
+ * leading comments, and comment-only pieces are dropped.
+ */
+export function splitScript(
+	provider: BunSqlProvider,
+	script: string,
+): ScriptStatement[] {
+	const statements: ScriptStatement[] = [];
+	let delimiter = ";";
+	// First code character of the current statement, -1 before it
+	let codeStart = -1;
+	let codeLine = 0;
+	// Leading keywords, to recognize CREATE TRIGGER
+	let head: string[] = [];
+	let parens = 0;
+	// BEGIN ... END bodies, with CASE ... END nested inside them
+	let blocks = 0;
+	let line = 1;
+	let counted = 0;
+
+	const lineAt = (position: number): number => {
+		for (; counted < position; counted++) {
+			if (script[counted] === "\n") line++;
+		}
+		return line;
+	};
+	const finish = (end: number) => {
+		if (codeStart !== -1) {
+			statements.push({
+				sql: script.slice(codeStart, end).trim(),
+				line: codeLine,
+			});
+		}
+		codeStart = -1;
+		head = [];
+		parens = 0;
+		blocks = 0;
+	};
+
+	let i = 0;
+	while (i < script.length) {
+		const comment = skipComment(provider, script, i);
+		if (comment !== -1) {
+			i = comment;
+			continue;
+		}
+		if (/\s/.test(script[i])) {
+			i++;
+			continue;
+		}
+
+		if (provider === "mysql" && codeStart === -1) {
+			DELIMITER_COMMAND.lastIndex = i;
+			const command = DELIMITER_COMMAND.exec(script);
+			if (command) {
+				delimiter = command[1];
+				i = DELIMITER_COMMAND.lastIndex;
+				continue;
+			}
+		}
+		if (script.startsWith(delimiter, i) && parens === 0 && blocks === 0) {
+			finish(i);
+			i += delimiter.length;
+			continue;
+		}
+
+		if (codeStart === -1) {
+			codeStart = i;
+			codeLine = lineAt(i);
+		}
+		const literal = skipLiteral(provider, script, i);
+		if (literal !== -1) {
+			i = literal;
+			continue;
+		}
+
+		let word = matchAt(WORD, script, i);
+		// MySQL identifiers may contain `$`, as `$$` delimiters do: `END$$`
+		const cut = word?.indexOf(delimiter) ?? -1;
+		if (cut > 0) word = word!.slice(0, cut);
+		if (word) {
+			const keyword = word.toUpperCase();
+			if (head.length < 3) head.push(keyword);
+			if (blocks > 0) {
+				if (keyword === "CASE") blocks++;
+				else if (keyword === "END") blocks--;
+			} else if (keyword === "BEGIN") {
+				const opensBody =
+					provider === "sqlite"
+						? isTrigger(head)
+						: provider === "postgres" &&
+							matchAt(ATOMIC, script, i + word.length) !== null;
+				if (opensBody) blocks = 1;
+			}
+			i += word.length;
+			continue;
+		}
+
+		if (script[i] === "(") parens++;
+		else if (script[i] === ")" && parens > 0) parens--;
+		i++;
+	}
+	finish(script.length);
+
+	return statements;
+}
+
+/**
+ * Run the statements of a script one after another with `run`. A failing
+ * statement raises a ScriptError naming it, built from `convertError`'s
+ * mapping of the driver error. In a transaction, it also rolls back.
+ */
+export async function runScript(
+	provider: BunSqlProvider,
+	statements: ScriptStatement[],
+	run: (sql: string) => Promise<unknown>,
+	convertError: (error: unknown) => unknown,
+	options: BunScriptOptions = {},
+): Promise<void> {
+	if (options.transaction) {
+		try {
+			for (const sql of transactionStartStatements(provider)) await run(sql);
+		} catch (error) {
+			throw convertError(error);
+		}
+	}
+
+	for (let index = 0; index < statements.length; index++) {
+		const { sql, line } = statements[index];
+		try {
+			await run(sql);
+		} catch (error) {
+			if (options.transaction) {
+				await run("ROLLBACK").catch(() => {});
+			}
+			const converted = convertError(error);
+			// Errors that aren't driver errors propagate like those of any query
+			throw isDriverAdapterError(converted)
+				? new ScriptError(index, line, sql, converted)
+				: converted;
+		}
+	}
+
+	if (options.transaction) {
+		try {
+			await run("COMMIT");
+		} catch (error) {
+			throw convertError(error);
+		}
+	}
+}
@@ -0,0 +1,113 @@
+import type { BunSqlProvider } from "./errors.js";
+
+export const IDENT_START = /[A-Za-z_\u0080-\uffff]/;
+export const IDENT_CHAR = /[A-Za-z0-9_$\u0080-\uffff]/;
+const DOLLAR_TAG = /\$(?:[A-Za-z_\u0080-\uffff][A-Za-z0-9_\u0080-\uffff]*)?\$/y;
+
+// Text `pattern` (a sticky regex) matches at `position`, if any
+export function matchAt(
+	pattern: RegExp,
+	sql: string,
+	position: number,
+): string | null {
+	pattern.lastIndex = position;
+	return pattern.exec(sql)?.[0] ?? null;
+}
+
+export function isIdentBefore(sql: string, i: number): boolean {
+	return i > 0 && IDENT_CHAR.test(sql[i - 1]);
+}
+
+// Index just past a quoted literal or identifier opened at `start`. A
+// doubled quote is an escaped quote; unterminated quotes run to the end.
+function skipQuoted(
+	sql: string,
+	start: number,
+	close: string,
+	backslashEscapes: boolean,
+): number {
+	let i = start + 1;
+	while (i < sql.length) {
+		const char = sql[i];
+		if (backslashEscapes && char === "\\") {
+			i += 2;
+		} else if (char === close) {
+			if (sql[i + 1] !== close || close === "]") return i + 1;
+			i += 2;
+		} else {
+			i++;
+		}
+	}
+	return sql.length;
+}
+
+function skipLineComment(sql: string, start: number): number {
+	const end = sql.indexOf("\n", start);
+	return end === -1 ? sql.length : end + 1;
+}
+
+// Postgres block comments nest; MySQL and SQLite ones end at the first */
+function skipBlockComment(sql: string, start: number, nested: boolean): number {
+	let depth = 0;
+	let i = start;
+	while (i < sql.length) {
+		if (sql.startsWith("/*", i)) {
+			depth = nested ? depth + 1 : 1;
+			i += 2;
+		} else if (sql.startsWith("*/", i)) {
+			i += 2;
+			if (--depth === 0) return i;
+		} else {
+			i++;
+		}
+	}
+	return sql.length;
+}
+
+/**
+ * If a string literal, quoted identifier or Postgres dollar-quoted body
+ * starts at `i`, the index just past it; otherwise -1. Comments are handled
+ * by `skipComment`, so callers can tell them apart from code.
+ */
+export function skipLiteral(provider: BunSqlProvider, sql: string, i: number): number {
+	const char = sql[i];
+	if (char === "'") {
+		const escapes =
+			provider === "mysql" ||
+			(provider === "postgres" &&
+				/[eE]/.test(sql[i - 1] ?? "") &&
+				!isIdentBefore(sql, i - 1));
+		return skipQuoted(sql, i, "'", escapes);
+	}
+	if (char === '"') return skipQuoted(sql, i, '"', provider === "mysql");
+	if (char === "`" && provider !== "postgres") return skipQuoted(sql, i, "`", false);
+	if (char === "[" && provider === "sqlite") return skipQuoted(sql, i, "]", false);
+	if (char === "$" && provider === "postgres" && !isIdentBefore(sql, i)) {
+		// `$1` is a placeholder, not a tag: tags can't start with a digit
+		const tag = matchAt(DOLLAR_TAG, sql, i);
+		if (tag) {
+			const close = sql.indexOf(tag, i + tag.length);
+			return close === -1 ? sql.length : close + tag.length;
+		}
+	}
+	return -1;
+}
+
+// Index just past a comment starting at `i`, or -1
+export function skipComment(provider: BunSqlProvider, sql: string, i: number): number {
+	const char = sql[i];
+	const next = sql[i + 1];
+	if (
+		char === "-" &&
+		next === "-" &&
+		// MySQL needs whitespace after --, so `1--1` stays arithmetic
+		(provider !== "mysql" || /\s/.test(sql[i + 2] ?? " "))
+	) {
+		return skipLineComment(sql, i);
+	}
+	if (char === "#" && provider === "mysql") return skipLineComment(sql, i);
+	if (char === "/" && next === "*") {
+		return skipBlockComment(sql, i, provider === "postgres");
+	}
+	return -1;
+}
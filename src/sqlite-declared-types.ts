@@ -0,0 +1,100 @@
+import type { Database } from "bun:sqlite";
+import type { ColumnType } from "@prisma/driver-adapter-utils";
+import { sqliteFilename } from "./optimized-sqlite.js";
+import { isReadOnlyQuery } from "./replicas.js";
+import { sqliteDeclTypeToColumnType } from "./sqlite-types.js";
+
+/**
+ * Column types of statement results from the columns' declared types, for
+ * clients that don't report them (Bun.sql). Statements are described on a
+ * separate read-only connection to the same file: bun:sqlite only exposes
+ * declared types once a statement ran, so reads run as a LIMIT 0 query and
+ * writes run there only to be rejected before they change anything.
+ */
+export class SQLiteDeclaredTypes {
+	private described = new Map<string, Map<string, ColumnType | null>>();
+	private schemaVersion: unknown = undefined;
+
+	private constructor(
+		private readonly db: Database,
+		private readonly capacity: number,
+	) {}
+
+	// In-memory databases can't be opened a second time; returns null for them
+	static async open(
+		connectionString: string,
+		capacity: number,
+	): Promise<SQLiteDeclaredTypes | null> {
+		const filename = sqliteFilename(connectionString);
+		if (filename === ":memory:") return null;
+		const { Database } = await import("bun:sqlite");
+		return new SQLiteDeclaredTypes(
+			new Database(filename, { readonly: true }),
+			capacity,
+		);
+	}
+
+	/**
+	 * Column types by result column name. Columns without a declared type
+	 * (expressions) are null, as is the whole result when the statement
+	 * can't be described.
+	 */
+	columnTypes(sql: string): Map<string, ColumnType | null> | null {
+		try {
+			// Any schema change, by this or another connection, bumps the version
+			const [[version]] = this.db.query("PRAGMA schema_version").values();
+			if (version !== this.schemaVersion) {
+				this.described.clear();
+				this.schemaVersion = version;
+			}
+		} catch {
+			return null;
+		}
+
+		const cached = this.described.get(sql);
+		if (cached) return cached;
+		const types = this.describe(sql);
+		if (!types) return null;
+		if (this.capacity > 0) {
+			if (this.described.size >= this.capacity) {
+				this.described.delete(this.described.keys().next().value!);
+			}
+			this.described.set(sql, types);
+		}
+		return types;
+	}
+
+	private describe(sql: string): Map<string, ColumnType | null> | null {
+		let statement;
+		try {
+			statement = this.db.prepare(
+				isReadOnlyQuery(sql) ? `SELECT * FROM (${sql}) LIMIT 0` : sql,
+			);
+		} catch {
+			return null;
+		}
+		try {
+			try {
+				statement.values(...new Array(statement.paramsCount).fill(null));
+			} catch {
+				// The read-only connection rejects writes
+			}
+			const declared = statement.declaredTypes;
+			return new Map(
+				statement.columnNames.map((name, i) => [
+					name,
+					sqliteDeclTypeToColumnType(declared[i]),
+				]),
+			);
+		} catch {
+			return null;
+		} finally {
+			statement.finalize();
+		}
+	}
+
+	close(): void {
+		this.described.clear();
+		this.db.close();
+	}
+}
@@ -0,0 +1,72 @@
+// PRAGMAs applied to every SQLite connection the adapter opens
+export interface BunSQLitePragmas {
+	// Enforce foreign keys, which Prisma's referential actions rely on
+	foreignKeys?: boolean;
+	journalMode?: "DELETE" | "TRUNCATE" | "PERSIST" | "MEMORY" | "WAL" | "OFF";
+	synchronous?: "OFF" | "NORMAL" | "FULL" | "EXTRA";
+	// Milliseconds to wait for another connection's lock before SQLITE_BUSY
+	busyTimeout?: number;
+	// Any other pragma, such as { cache_size: -20000, temp_store: "MEMORY" }
+	extra?: Record<string, string | number | boolean>;
+}
+
+// WAL lets readers run alongside the writer, and NORMAL is durable enough
+// in WAL mode while syncing far less often than FULL
+export const DEFAULT_SQLITE_PRAGMAS: Required<Omit<BunSQLitePragmas, "extra">> = {
+	foreignKeys: true,
+	journalMode: "WAL",
+	synchronous: "NORMAL",
+	busyTimeout: 5000,
+};
+
+const JOURNAL_MODES = new Set(["DELETE", "TRUNCATE", "PERSIST", "MEMORY", "WAL", "OFF"]);
+const SYNCHRONOUS = new Set(["OFF", "NORMAL", "FULL", "EXTRA"]);
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+function invalid(name: string, value: unknown): Error {
+	return new Error(`Invalid SQLite pragma ${name}: ${JSON.stringify(value)}`);
+}
+
+// PRAGMA arguments can't be bound, so values are checked and inlined
+function pragmaValue(name: string, value: string | number | boolean): string {
+	if (typeof value === "boolean") return value ? "ON" : "OFF";
+	if (typeof value === "number") {
+		if (!Number.isFinite(value)) throw invalid(name, value);
+		return String(value);
+	}
+	if (typeof value !== "string") throw invalid(name, value);
+	return IDENTIFIER.test(value) ? value : `'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Statements that apply `pragmas` over the defaults. busy_timeout comes first
+ * so the others wait for locks too. journal_mode is skipped on read-only
+ * connections: it is stored in the database file and changing it is a write.
+ */
+export function sqlitePragmaStatements(
+	pragmas: BunSQLitePragmas = {},
+	readonly = false,
+): string[] {
+	const defaults = DEFAULT_SQLITE_PRAGMAS;
+	const foreignKeys = pragmas.foreignKeys ?? defaults.foreignKeys;
+	const journalMode = pragmas.journalMode ?? defaults.journalMode;
+	const synchronous = pragmas.synchronous ?? defaults.synchronous;
+	const busyTimeout = pragmas.busyTimeout ?? defaults.busyTimeout;
+	if (!Number.isInteger(busyTimeout) || busyTimeout < 0) {
+		throw invalid("busyTimeout", busyTimeout);
+	}
+	if (!JOURNAL_MODES.has(journalMode)) throw invalid("journalMode", journalMode);
+	if (!SYNCHRONOUS.has(synchronous)) throw invalid("synchronous", synchronous);
+
+	const statements = [`PRAGMA busy_timeout = ${busyTimeout}`];
+	if (!readonly) statements.push(`PRAGMA journal_mode = ${journalMode}`);
+	statements.push(
+		`PRAGMA synchronous = ${synchronous}`,
+		`PRAGMA foreign_keys = ${foreignKeys ? "ON" : "OFF"}`,
+	);
+	for (const [name, value] of Object.entries(pragmas.extra ?? {})) {
+		if (!IDENTIFIER.test(name)) throw invalid(name, value);
+		statements.push(`PRAGMA ${name} = ${pragmaValue(name, value)}`);
+	}
+	return statements;
+}
@@ -0,0 +1,185 @@
+import { ColumnType, ColumnTypeEnum } from "@prisma/driver-adapter-utils";
+
+const I32_MIN = -2147483648;
+const I32_MAX = 2147483647;
+
+// "YYYY-MM-DD HH:MM:SS[.SSS]" as written by SQLite's datetime functions
+const SQLITE_DATETIME_REGEX =
+	/^(\d{4}-\d{2}-\d{2})[ T](\d{2}:\d{2}:\d{2}(?:\.\d+)?)(Z|[+-]\d{2}:?\d{2})?$/;
+
+/**
+ * Map a column's declared type to a Prisma column type following Prisma's
+ * SQLite conventions. Returns null for expressions without a declared type.
+ */
+export function sqliteDeclTypeToColumnType(
+	declType: string | null | undefined,
+): ColumnType | null {
+	if (!declType) {
+		return null;
+	}
+
+	// Drop size/precision arguments: DECIMAL(10,2) -> DECIMAL
+	const base = declType.replace(/\(.*\)/, "").trim().toUpperCase();
+	switch (base) {
+		case "":
+			return null;
+		case "BOOLEAN":
+		case "BOOL":
+			return ColumnTypeEnum.Boolean;
+		case "DECIMAL":
+			return ColumnTypeEnum.Numeric;
+		case "FLOAT":
+			return ColumnTypeEnum.Float;
+		case "DOUBLE":
+		case "DOUBLE PRECISION":
+		case "NUMERIC":
+		case "REAL":
+			return ColumnTypeEnum.Double;
+		case "TINYINT":
+		case "SMALLINT":
+		case "MEDIUMINT":
+		case "INT":
+		case "INTEGER":
+		case "SERIAL":
+		case "INT2":
+			return ColumnTypeEnum.Int32;
+		case "BIGINT":
+		case "UNSIGNED BIG INT":
+		case "INT8":
+			return ColumnTypeEnum.Int64;
+		case "DATETIME":
+		case "TIMESTAMP":
+			return ColumnTypeEnum.DateTime;
+		case "DATE":
+			return ColumnTypeEnum.Date;
+		case "TIME":
+			return ColumnTypeEnum.Time;
+		case "TEXT":
+		case "CLOB":
+		case "CHARACTER":
+		case "VARCHAR":
+		case "VARYING CHARACTER":
+		case "NCHAR":
+		case "NATIVE CHARACTER":
+		case "NVARCHAR":
+			return ColumnTypeEnum.Text;
+		case "BLOB":
+			return ColumnTypeEnum.Bytes;
+		case "JSON":
+		case "JSONB":
+			return ColumnTypeEnum.Json;
+	}
+
+	// SQLite type affinity rules (https://www.sqlite.org/datatype3.html)
+	if (base.includes("INT")) return ColumnTypeEnum.Int64;
+	if (base.includes("CHAR") || base.includes("CLOB") || base.includes("TEXT"))
+		return ColumnTypeEnum.Text;
+	if (base.includes("BLOB")) return ColumnTypeEnum.Bytes;
+	if (base.includes("REAL") || base.includes("FLOA") || base.includes("DOUB"))
+		return ColumnTypeEnum.Double;
+	return ColumnTypeEnum.Numeric;
+}
+
+function toIsoDateTime(value: unknown): unknown {
+	if (value instanceof Date) {
+		return value.toISOString();
+	}
+	// Prisma stores DateTime as unix epoch milliseconds by default
+	if (typeof value === "number" || typeof value === "bigint") {
+		return new Date(Number(value)).toISOString();
+	}
+	if (typeof value === "string") {
+		if (/^-?\d+$/.test(value)) {
+			return new Date(Number(value)).toISOString();
+		}
+		const m = value.match(SQLITE_DATETIME_REGEX);
+		if (m) {
+			const zone = m[3] ?? "Z";
+			const parsed = new Date(`${m[1]}T${m[2]}${zone}`);
+			if (!Number.isNaN(parsed.getTime())) {
+				return parsed.toISOString();
+			}
+		}
+	}
+	return value;
+}
+
+/**
+ * Normalize a value read from SQLite into the representation Prisma expects
+ * for the column's declared type.
+ */
+export function serializeSQLiteValue(type: ColumnType, value: unknown): unknown {
+	if (value === null || value === undefined) {
+		return value;
+	}
+
+	switch (type) {
+		case ColumnTypeEnum.Boolean:
+			if (typeof value === "boolean") return value;
+			if (typeof value === "string") return value === "1" || value === "true";
+			return Number(value) !== 0;
+		case ColumnTypeEnum.Int32:
+		case ColumnTypeEnum.Float:
+		case ColumnTypeEnum.Double:
+			return typeof value === "bigint" ? Number(value) : value;
+		case ColumnTypeEnum.Int64:
+		case ColumnTypeEnum.Numeric:
+			// Exact decimal/64-bit values travel as strings
+			return typeof value === "number" || typeof value === "bigint"
+				? value.toString()
+				: value;
+		case ColumnTypeEnum.DateTime:
+			return toIsoDateTime(value);
+		case ColumnTypeEnum.Date: {
+			// Plain "YYYY-MM-DD" text is left untouched by toIsoDateTime
+			const iso = toIsoDateTime(value);
+			return iso !== value && typeof iso === "string" ? iso.slice(0, 10) : iso;
+		}
+		case ColumnTypeEnum.Bytes:
+			return value instanceof Uint8Array ? Array.from(value) : value;
+		default:
+			return value;
+	}
+}
+
+/**
+ * Value-based fallback for expression columns. Integers arrive as bigint
+ * (safeIntegers); keep small ones typed as Int32 like Prisma does.
+ */
+export function inferSQLiteBigIntType(value: bigint): ColumnType {
+	return value >= BigInt(I32_MIN) && value <= BigInt(I32_MAX)
+		? ColumnTypeEnum.Int32
+		: ColumnTypeEnum.Int64;
+}
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+const UUID_REGEX =
+	/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Column type of an expression column, from its first non-null value as
+ * bun:sqlite returns it. A column of NULLs is typed as a number, like Prisma.
+ */
+export function inferSQLiteValueType(value: unknown): ColumnType {
+	if (value === null || value === undefined) return ColumnTypeEnum.UnknownNumber;
+	if (typeof value === "bigint") return inferSQLiteBigIntType(value);
+	if (typeof value === "number") {
+		return Number.isInteger(value) ? ColumnTypeEnum.Int32 : ColumnTypeEnum.Double;
+	}
+	if (typeof value === "boolean") return ColumnTypeEnum.Boolean;
+	if (value instanceof Uint8Array) return ColumnTypeEnum.Bytes;
+	if (typeof value === "string") {
+		if (SQLITE_DATETIME_REGEX.test(value)) return ColumnTypeEnum.DateTime;
+		if (DATE_REGEX.test(value)) return ColumnTypeEnum.Date;
+		if (UUID_REGEX.test(value)) return ColumnTypeEnum.Uuid;
+	}
+	return ColumnTypeEnum.Text;
+}
+
+// Leading whitespace and comments, as migrations often start with a comment
+const SCHEMA_CHANGE_START =
+	/^(?:\s|--[^\n]*(?:\n|$)|\/\*[\s\S]*?\*\/)*(?:CREATE|ALTER|DROP)\b/i;
+
+export function isSQLiteSchemaChange(sql: string): boolean {
+	return SCHEMA_CHANGE_START.test(sql);
+}
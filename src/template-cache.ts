@@ -0,0 +1,65 @@
+import type { BunSqlProvider } from "./errors.js";
+import { CompiledQuery, compilePlaceholders } from "./placeholders.js";
+
+export interface TemplateCacheStats {
+	size: number;
+	capacity: number;
+	hits: number;
+	misses: number;
+	evictions: number;
+}
+
+/**
+ * Least-recently-used cache of compiled queries, owned by one adapter.
+ * Entries are keyed by provider and argument count as well as SQL text, so
+ * the same statement compiled for another dialect or arity never collides.
+ * A capacity of 0 disables caching.
+ */
+export class TemplateCache {
+	private entries = new Map<string, CompiledQuery>();
+	private hits = 0;
+	private misses = 0;
+	private evictions = 0;
+
+	constructor(
+		private readonly provider: BunSqlProvider,
+		private readonly capacity: number,
+	) {}
+
+	compile(sql: string, argCount: number): CompiledQuery {
+		const key = `${this.provider}:${argCount}:${sql}`;
+		const cached = this.entries.get(key);
+		if (cached) {
+			this.hits++;
+			// Re-insert to mark it most recently used
+			this.entries.delete(key);
+			this.entries.set(key, cached);
+			return cached;
+		}
+
+		this.misses++;
+		const compiled = compilePlaceholders(this.provider, sql, argCount);
+		if (this.capacity > 0) {
+			if (this.entries.size >= this.capacity) {
+				this.entries.delete(this.entries.keys().next().value!);
+				this.evictions++;
+			}
+			this.entries.set(key, compiled);
+		}
+		return compiled;
+	}
+
+	stats(): TemplateCacheStats {
+		return {
+			size: this.entries.size,
+			capacity: this.capacity,
+			hits: this.hits,
+			misses: this.misses,
+			evictions: this.evictions,
+		};
+	}
+
+	clear(): void {
+		this.entries.clear();
+	}
+}
@@ -0,0 +1,119 @@
+import { readFile } from "node:fs/promises";
+import { takeQueryParams } from "./connection-string.js";
+
+// `ca`, `cert` and `key` take PEM text or a path to a PEM file
+export type BunSslConfig =
+	| boolean
+	| {
+			rejectUnauthorized?: boolean;
+			ca?: string;
+			cert?: string;
+			key?: string;
+	  };
+
+// TLS options in the shape Bun.sql's `tls` option expects
+export interface BunTlsOptions {
+	rejectUnauthorized: boolean;
+	ca?: string;
+	cert?: string;
+	key?: string;
+}
+
+const SSL_MODES = new Set([
+	"disable",
+	"allow",
+	"prefer",
+	"require",
+	"verify-ca",
+	"verify-full",
+]);
+
+// libpq-style parameters handled here. Bun.sql would forward unknown ones to
+// the server as session settings, which then rejects the connection.
+const TLS_PARAMS = ["sslmode", "sslrootcert", "sslcert", "sslkey", "sslaccept"];
+
+async function loadPem(
+	name: string,
+	value: string | undefined,
+): Promise<string | undefined> {
+	if (!value || value.includes("-----BEGIN")) {
+		return value;
+	}
+	try {
+		return await readFile(value, "utf8");
+	} catch (error: any) {
+		throw new Error(
+			`Could not read ${name} file "${value}": ${error?.message ?? error}`,
+		);
+	}
+}
+
+function appendParam(url: string, param: string): string {
+	const hashAt = url.indexOf("#");
+	const [head, hash] =
+		hashAt === -1 ? [url, ""] : [url.slice(0, hashAt), url.slice(hashAt)];
+	return `${head}${head.includes("?") ? "&" : "?"}${param}${hash}`;
+}
+
+/**
+ * Turn the `ssl` config and the connection string's `sslmode`, `sslrootcert`,
+ * `sslcert`, `sslkey` and `sslaccept` parameters into Bun.sql's `tls` option.
+ * The config wins over URL parameters. As in libpq, `require` only verifies
+ * the server when a root certificate is given, unless Prisma's `sslaccept`
+ * says otherwise. Bun's TLS client always checks the host name when it
+ * verifies, so `verify-ca` behaves like `verify-full`.
+ */
+export async function resolveTls(
+	connectionString: string,
+	ssl?: BunSslConfig,
+): Promise<{ url: string; tls?: BunTlsOptions | false }> {
+	const { url, params } = takeQueryParams(connectionString, TLS_PARAMS);
+	const mode = params.sslmode?.toLowerCase();
+	if (mode !== undefined && !SSL_MODES.has(mode)) {
+		throw new Error(
+			`Unsupported sslmode "${params.sslmode}". Use one of: ${[...SSL_MODES].join(", ")}`,
+		);
+	}
+	const accept = params.sslaccept;
+	if (
+		accept !== undefined &&
+		accept !== "strict" &&
+		accept !== "accept_invalid_certs"
+	) {
+		throw new Error(
+			`Unsupported sslaccept "${accept}". Use strict or accept_invalid_certs`,
+		);
+	}
+
+	if (ssl === false || (ssl === undefined && mode === "disable")) {
+		return { url, tls: false };
+	}
+	const hasFiles = Boolean(params.sslrootcert || params.sslcert || params.sslkey);
+	if (ssl === undefined && !hasFiles) {
+		// Bun negotiates opportunistic TLS itself; `allow` has no Bun equivalent
+		if (mode === "prefer" || mode === "allow") {
+			return { url: appendParam(url, "sslmode=prefer") };
+		}
+		if (mode === undefined) {
+			return { url };
+		}
+	}
+
+	const overrides = typeof ssl === "object" ? ssl : {};
+	const ca = await loadPem("sslrootcert", overrides.ca ?? params.sslrootcert);
+	const cert = await loadPem("sslcert", overrides.cert ?? params.sslcert);
+	const key = await loadPem("sslkey", overrides.key ?? params.sslkey);
+	const verify =
+		overrides.rejectUnauthorized ??
+		(accept !== undefined ? accept === "strict" : undefined) ??
+		(ssl === true ||
+			mode === "verify-ca" ||
+			mode === "verify-full" ||
+			ca !== undefined);
+
+	const tls: BunTlsOptions = { rejectUnauthorized: verify };
+	if (ca !== undefined) tls.ca = ca;
+	if (cert !== undefined) tls.cert = cert;
+	if (key !== undefined) tls.key = key;
+	return { url, tls };
+}
@@ -0,0 +1,84 @@
+import {
+	DriverAdapterError,
+	type IsolationLevel,
+} from "@prisma/driver-adapter-utils";
+import type { BunSqlProvider } from "./errors.js";
+
+// Access mode of a transaction, beyond Prisma's isolation level
+export interface BunTransactionOptions {
+	// Postgres and MySQL
+	readOnly?: boolean;
+	// Postgres only; takes effect for SERIALIZABLE READ ONLY transactions
+	deferrable?: boolean;
+}
+
+const SQL_LEVELS: ReadonlySet<string> = new Set([
+	"READ UNCOMMITTED",
+	"READ COMMITTED",
+	"REPEATABLE READ",
+	"SERIALIZABLE",
+]);
+
+// SQLite is always serializable; the level decides when the write lock is
+// taken
+const SQLITE_BEGIN: Record<string, string> = {
+	"READ UNCOMMITTED": "BEGIN DEFERRED",
+	"READ COMMITTED": "BEGIN DEFERRED",
+	"REPEATABLE READ": "BEGIN IMMEDIATE",
+	SERIALIZABLE: "BEGIN EXCLUSIVE",
+};
+
+function unsupported(provider: BunSqlProvider, option: string): Error {
+	return new Error(`${option} transactions are not supported by ${provider}`);
+}
+
+/**
+ * Statements that open a transaction with the requested isolation level and
+ * access mode, in the order the provider needs them. Unsupported levels (such
+ * as SNAPSHOT) raise Prisma's InvalidIsolationLevel error.
+ *
+ * SQLite transactions without a level take the write lock up front with
+ * IMMEDIATE: two DEFERRED transactions that both read and then write
+ * deadlock, and one fails with SQLITE_BUSY. Read-only connections can't
+ * write, so theirs stay DEFERRED.
+ */
+export function transactionStartStatements(
+	provider: BunSqlProvider,
+	isolationLevel?: IsolationLevel,
+	options: BunTransactionOptions = {},
+	readonlyConnection = false,
+): string[] {
+	if (isolationLevel !== undefined && !SQL_LEVELS.has(isolationLevel)) {
+		throw new DriverAdapterError({
+			kind: "InvalidIsolationLevel",
+			level: isolationLevel,
+		});
+	}
+
+	switch (provider) {
+		case "postgres": {
+			let begin = "BEGIN";
+			if (isolationLevel) begin += ` ISOLATION LEVEL ${isolationLevel}`;
+			if (options.readOnly) begin += " READ ONLY";
+			if (options.deferrable) begin += " DEFERRABLE";
+			return [begin];
+		}
+		case "mysql": {
+			if (options.deferrable) throw unsupported(provider, "DEFERRABLE");
+			// Without a scope keyword, SET TRANSACTION applies to the next
+			// transaction on this session only
+			const statements = isolationLevel
+				? [`SET TRANSACTION ISOLATION LEVEL ${isolationLevel}`]
+				: [];
+			statements.push(
+				options.readOnly ? "START TRANSACTION READ ONLY" : "START TRANSACTION",
+			);
+			return statements;
+		}
+		case "sqlite":
+			if (options.readOnly) throw unsupported(provider, "READ ONLY");
+			if (options.deferrable) throw unsupported(provider, "DEFERRABLE");
+			if (isolationLevel) return [SQLITE_BEGIN[isolationLevel]];
+			return [readonlyConnection ? "BEGIN DEFERRED" : "BEGIN IMMEDIATE"];
+	}
+}
@@ -0,0 +1,38 @@
+// What a statement reports about its writes, as Bun.sql and bun:sqlite
+// return it
+export interface BunWriteResult {
+	count?: number | null;
+	affectedRows?: number | bigint | null;
+	// bun:sqlite's Statement.run()
+	changes?: number | bigint;
+	lastInsertRowid?: number | bigint | null;
+}
+
+/**
+ * Rows a statement changed. MySQL reports affectedRows; Postgres and SQLite
+ * only the command's row count. A reported 0 is kept, not replaced by the
+ * other field.
+ */
+export function affectedRowCount(result: BunWriteResult): number {
+	return Number(result.affectedRows ?? result.changes ?? result.count ?? 0);
+}
+
+const INSERT_START =
+	/^(?:\s|--[^\n]*\n|\/\*[\s\S]*?\*\/)*(?:INSERT|REPLACE|UPSERT)\b/i;
+
+/**
+ * Id of the row an INSERT, REPLACE or upsert generated, as a string so 64-bit
+ * ids stay exact. Undefined for Postgres, for inserts that changed no row, and
+ * for every other statement: SQLite keeps reporting the rowid of the
+ * connection's last insert after an UPDATE or DELETE.
+ */
+export function lastInsertId(
+	sql: string,
+	result: BunWriteResult,
+): string | undefined {
+	const id = result.lastInsertRowid;
+	if (!id || affectedRowCount(result) === 0 || !INSERT_START.test(sql)) {
+		return undefined;
+	}
+	return id.toString();
+}
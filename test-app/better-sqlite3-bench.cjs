@@ -0,0 +1,49 @@
+// better-sqlite3 baseline for sqlite-optimized-benchmark.ts. better-sqlite3 is
+// a Node addon that Bun can't load, so the benchmark runs this file with node
+// and reads the timings it prints as JSON.
+const Database = require("better-sqlite3");
+
+const { rows, iterations } = JSON.parse(process.argv[2]);
+
+const db = new Database(":memory:");
+db.exec(`CREATE TABLE bench (
+  id INTEGER PRIMARY KEY,
+  name TEXT NOT NULL,
+  email TEXT NOT NULL,
+  score REAL,
+  created_at DATETIME
+)`);
+
+const insert = db.prepare(
+  "INSERT INTO bench (name, email, score, created_at) VALUES (?, ?, ?, ?)",
+);
+const row = (i) => [`user ${i}`, `user${i}@example.com`, i / 7, Date.now()];
+db.transaction(() => {
+  for (let i = 0; i < rows; i++) insert.run(...row(i));
+})();
+
+const pointSelect = db
+  .prepare("SELECT id, name, email, score, created_at FROM bench WHERE id = ?")
+  .raw();
+const rangeSelect = db
+  .prepare("SELECT id, name, email, score, created_at FROM bench WHERE id > ? ORDER BY id LIMIT 50")
+  .raw();
+const batch = db.transaction((start) => {
+  for (let j = 0; j < 10; j++) insert.run(...row(start + j));
+});
+
+const time = (count, fn) => {
+  const start = performance.now();
+  for (let i = 0; i < count; i++) fn(i);
+  return performance.now() - start;
+};
+
+const results = {
+  "point select": time(iterations.point, (i) => pointSelect.all((i % rows) + 1)),
+  "range select (50 rows)": time(iterations.range, (i) => rangeSelect.all(i % (rows - 50))),
+  insert: time(iterations.insert, (i) => insert.run(...row(i))),
+  "transaction (10 inserts)": time(iterations.transaction, (i) => batch(i * 10)),
+};
+
+db.close();
+console.log(JSON.stringify(results));
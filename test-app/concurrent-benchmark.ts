@@ -43,7 +43,8 @@ class ConcurrentBenchmark {
     const results: ConcurrentTestResult[] = [];
 
     try {
-      bunAdapter = createAdapter("bun");
+      // BUN_ADAPTER=optimized benchmarks the optimized bundle instead
+      bunAdapter = createAdapter(process.env.BUN_ADAPTER === "optimized" ? "bun-optimized" : "bun");
       prismaPgAdapter = createAdapter("prisma-pg");
 
       // Test 1: Concurrent Simple Queries
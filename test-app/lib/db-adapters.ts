@@ -1,9 +1,10 @@
 import { PrismaClient } from "@prisma/client";
 import { BunPostgresAdapter } from "../../src/index";
+import { BunPostgresAdapter as OptimizedBunPostgresAdapter } from "../../src/optimized-index";
 import { PrismaPg } from "@prisma/adapter-pg";
 import { Pool } from "pg";
 
-export type AdapterType = "bun" | "prisma-pg";
+export type AdapterType = "bun" | "bun-optimized" | "prisma-pg";
 
 export interface AdapterConfig {
   name: string;
@@ -35,6 +36,28 @@ export function createBunAdapter(): AdapterConfig {
   };
 }
 
+export function createOptimizedBunAdapter(): AdapterConfig {
+  const adapter = new OptimizedBunPostgresAdapter({
+    connectionString: process.env.DATABASE_URL!,
+    maxConnections: 10,
+  });
+
+  const prisma = new PrismaClient({
+    adapter,
+    log: process.env.PRISMA_DISABLE_LOGS ? ["error"] : ["query", "info", "warn", "error"],
+  });
+
+  return {
+    name: "OptimizedBunPostgresAdapter",
+    type: "bun-optimized",
+    prisma,
+    dispose: async () => {
+      await prisma.$disconnect();
+      await adapter.dispose();
+    }
+  };
+}
+
 export function createPrismaPgAdapter(): AdapterConfig {
   const pool = new Pool({
     connectionString: process.env.DATABASE_URL!,
@@ -64,6 +87,8 @@ export function createAdapter(type: AdapterType): AdapterConfig {
   switch (type) {
     case "bun":
       return createBunAdapter();
+    case "bun-optimized":
+      return createOptimizedBunAdapter();
     case "prisma-pg":
       return createPrismaPgAdapter();
     default:
@@ -0,0 +1,143 @@
+import type { SqlDriverAdapter } from "@prisma/driver-adapter-utils";
+import { BunSQLiteAdapter } from "../src/index.js";
+import { BunSQLiteAdapter as OptimizedBunSQLiteAdapter } from "../src/optimized-index.js";
+
+/**
+ * SQLite Adapter Benchmark
+ * Runs the same workloads through better-sqlite3 (under node), the standard
+ * Bun.sql-based adapter and the optimized bun:sqlite adapter.
+ *
+ * better-sqlite3 is timed as a raw driver: it skips the Prisma result
+ * conversion both adapters do, so it is the floor to compare against.
+ */
+
+const ROWS = 1000;
+const ITERATIONS = {
+  point: 5000,
+  range: 1000,
+  insert: 2000,
+  transaction: 200,
+};
+
+type Timings = Record<string, number>;
+
+const COLUMNS = "id, name, email, score, created_at";
+const INSERT_SQL = "INSERT INTO bench (name, email, score, created_at) VALUES (?, ?, ?, ?)";
+
+const query = (sql: string, args: unknown[] = []) => ({ sql, args, argTypes: [] });
+const row = (i: number) => [`user ${i}`, `user${i}@example.com`, i / 7, Date.now()];
+
+async function time(count: number, fn: (i: number) => Promise<unknown>): Promise<number> {
+  const start = performance.now();
+  for (let i = 0; i < count; i++) {
+    await fn(i);
+  }
+  return performance.now() - start;
+}
+
+async function benchmarkAdapter(driver: SqlDriverAdapter): Promise<Timings> {
+  await driver.executeScript(`CREATE TABLE bench (
+    id INTEGER PRIMARY KEY,
+    name TEXT NOT NULL,
+    email TEXT NOT NULL,
+    score REAL,
+    created_at DATETIME
+  )`);
+  const seed = await driver.startTransaction();
+  for (let i = 0; i < ROWS; i++) {
+    await seed.executeRaw(query(INSERT_SQL, row(i)));
+  }
+  await seed.commit();
+
+  const pointSql = `SELECT ${COLUMNS} FROM bench WHERE id = ?`;
+  const rangeSql = `SELECT ${COLUMNS} FROM bench WHERE id > ? ORDER BY id LIMIT 50`;
+
+  try {
+    return {
+      "point select": await time(ITERATIONS.point, (i) =>
+        driver.queryRaw(query(pointSql, [(i % ROWS) + 1])),
+      ),
+      "range select (50 rows)": await time(ITERATIONS.range, (i) =>
+        driver.queryRaw(query(rangeSql, [i % (ROWS - 50)])),
+      ),
+      insert: await time(ITERATIONS.insert, (i) => driver.executeRaw(query(INSERT_SQL, row(i)))),
+      "transaction (10 inserts)": await time(ITERATIONS.transaction, async (i) => {
+        const tx = await driver.startTransaction();
+        for (let j = 0; j < 10; j++) {
+          await tx.executeRaw(query(INSERT_SQL, row(i * 10 + j)));
+        }
+        await tx.commit();
+      }),
+    };
+  } finally {
+    await driver.dispose();
+  }
+}
+
+// better-sqlite3 doesn't load in Bun, so it runs in a node child process
+async function benchmarkBetterSqlite3(): Promise<Timings | string> {
+  const script = new URL("./better-sqlite3-bench.cjs", import.meta.url).pathname;
+  try {
+    const child = Bun.spawn(
+      ["node", script, JSON.stringify({ rows: ROWS, iterations: ITERATIONS })],
+      { stdout: "pipe", stderr: "pipe" },
+    );
+    const [stdout, stderr, code] = await Promise.all([
+      new Response(child.stdout).text(),
+      new Response(child.stderr).text(),
+      child.exited,
+    ]);
+    if (code !== 0) {
+      return stderr.trim().split("\n")[0] || `node exited with code ${code}`;
+    }
+    return JSON.parse(stdout) as Timings;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+const opsPerSecond = (count: number, ms: number) => (count / ms) * 1000;
+
+async function main(): Promise<void> {
+  console.log("🗃️  SQLite Adapter Benchmark\n");
+  console.log(`📊 ${ROWS} seeded rows, in-memory databases, one query at a time\n`);
+
+  const counts: Record<string, number> = {
+    "point select": ITERATIONS.point,
+    "range select (50 rows)": ITERATIONS.range,
+    insert: ITERATIONS.insert,
+    "transaction (10 inserts)": ITERATIONS.transaction,
+  };
+
+  const better = await benchmarkBetterSqlite3();
+  const standard = await benchmarkAdapter(await new BunSQLiteAdapter(":memory:").connect());
+  const optimized = await benchmarkAdapter(
+    await new OptimizedBunSQLiteAdapter(":memory:").connect(),
+  );
+
+  if (typeof better === "string") {
+    console.log(`⚠️  better-sqlite3 skipped: ${better}\n`);
+  }
+
+  console.log("📈 Operations per second:");
+  console.log("=========================");
+  for (const [name, count] of Object.entries(counts)) {
+    const optimizedOps = opsPerSecond(count, optimized[name]);
+    const standardOps = opsPerSecond(count, standard[name]);
+    console.log(`${name}:`);
+    if (typeof better !== "string") {
+      console.log(`   🔧 better-sqlite3 (raw):  ${opsPerSecond(count, better[name]).toFixed(0)}`);
+    }
+    console.log(`   📦 Standard adapter:      ${standardOps.toFixed(0)}`);
+    console.log(`   🚀 Optimized adapter:     ${optimizedOps.toFixed(0)}`);
+    console.log(`   📈 Optimized vs standard: ${(optimizedOps / standardOps).toFixed(2)}x`);
+    console.log();
+  }
+}
+
+if (import.meta.main) {
+  main().catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
+}
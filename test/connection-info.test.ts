@@ -0,0 +1,73 @@
+import { describe, expect, it } from "bun:test";
+import { BunMySQLAdapter, BunSQLiteAdapter } from "../src/index.ts";
+import {
+  databaseName,
+  mysqlConnectionInfo,
+  sqliteConnectionInfo,
+} from "../src/connection-info.ts";
+import { makeResult, withFakeBun } from "./fake-bun-sql.ts";
+
+describe("connection info", () => {
+  it("enables MySQL relation joins from 8.0.14, never on MariaDB", () => {
+    expect(mysqlConnectionInfo("8.0.36-0ubuntu0.22.04.1").supportsRelationJoins).toBe(true);
+    expect(mysqlConnectionInfo("8.4.0").supportsRelationJoins).toBe(true);
+    expect(mysqlConnectionInfo("8.0.13").supportsRelationJoins).toBe(false);
+    expect(mysqlConnectionInfo("5.7.44").supportsRelationJoins).toBe(false);
+    expect(mysqlConnectionInfo("11.4.2-MariaDB").supportsRelationJoins).toBe(false);
+    expect(mysqlConnectionInfo(null)).toEqual({
+      schemaName: undefined,
+      maxBindValues: 65535,
+      supportsRelationJoins: false,
+    });
+  });
+
+  it("uses SQLite's variable limit of the running version", () => {
+    expect(sqliteConnectionInfo("3.45.1").maxBindValues).toBe(32766);
+    expect(sqliteConnectionInfo("3.32.0").maxBindValues).toBe(32766);
+    expect(sqliteConnectionInfo("3.31.1").maxBindValues).toBe(999);
+    expect(sqliteConnectionInfo(null).maxBindValues).toBe(999);
+  });
+
+  it("reads the MySQL database name from the connection string", () => {
+    expect(databaseName("mysql://user:p@ss/w@db:3306/shop?sslmode=require")).toBe("shop");
+    expect(databaseName("mysql://db/my%20app")).toBe("my app");
+    expect(databaseName("mysql://user@db:3306")).toBeUndefined();
+    expect(databaseName("mysql://user@db:3306/")).toBeUndefined();
+  });
+
+  it("asks the MySQL server for its version when connecting", async () => {
+    for (const [version, joins] of [
+      ["8.0.36", true],
+      ["10.11.6-MariaDB", false],
+    ] as const) {
+      await withFakeBun(
+        (call) => makeResult(call.sql.includes("VERSION()") ? [{ version }] : [{}]),
+        async ({ calls }) => {
+          const driver = await new BunMySQLAdapter("mysql://u:p@db:3306/shop").connect();
+          expect(calls.map((call) => call.sql)).toEqual(["SELECT VERSION() AS version"]);
+          expect(driver.getConnectionInfo?.()).toEqual({
+            schemaName: "shop",
+            maxBindValues: 65535,
+            supportsRelationJoins: joins,
+          });
+          await driver.dispose();
+        },
+      );
+    }
+  });
+
+  it("reports the limit of Bun's bundled SQLite", async () => {
+    const driver = await new BunSQLiteAdapter(":memory:").connect();
+    const info = driver.getConnectionInfo?.();
+    expect(info).toEqual({ maxBindValues: 32766, supportsRelationJoins: false });
+
+    const ids = Array.from({ length: 5000 }, (_, i) => i);
+    const result = await driver.queryRaw({
+      sql: `SELECT count(*) AS n FROM (SELECT 1) WHERE 1 IN (${ids.map(() => "?").join(", ")})`,
+      args: ids,
+      argTypes: [],
+    });
+    expect(Number(result.rows[0][0])).toBe(1);
+    await driver.dispose();
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, expect, it, spyOn } from "bun:test";
+import { BunPostgresAdapter, BunSQLiteAdapter } from "../src/index.ts";
+import { parseConnectionString } from "../src/connection-string.ts";
+import { withFakeBun } from "./fake-bun-sql.ts";
+
+describe("connection string parameters", () => {
+  it("maps Prisma's Postgres parameters", () => {
+    const parsed = parseConnectionString(
+      "postgres",
+      "postgresql://app:p@ss@db:5432/app?connection_limit=7&pool_timeout=3&connect_timeout=4" +
+        "&max_idle_connection_lifetime=60&schema=tenant%201&statement_cache_size=0&application_name=api" +
+        "&sslmode=require&socket_timeout=10&options=-c%20statement_timeout%3D5000",
+    );
+    expect(parsed.url).toBe(
+      "postgresql://app:p@ss@db:5432/app?application_name=api&sslmode=require" +
+        "&options=-c%20statement_timeout%3D5000&search_path=%22tenant%201%22",
+    );
+    expect(parsed.pool).toEqual({
+      maxConnections: 7,
+      poolTimeout: 3,
+      connectionTimeout: 4,
+      idleTimeout: 60,
+      prepare: false,
+    });
+    expect(parsed.schema).toBe("tenant 1");
+    expect(parsed.pgbouncer).toBe(false);
+    expect(parsed.warnings).toEqual(["socket_timeout is ignored: Bun.sql has no socket timeout"]);
+  });
+
+  it("drops Postgres parameters that aren't libpq options Bun.sql forwards", () => {
+    const parsed = parseConnectionString(
+      "postgres",
+      "postgres://db/app?statement_timeout=5000&target_session_attrs=any&client_encoding=UTF8",
+    );
+    expect(parsed.url).toBe("postgres://db/app?client_encoding=UTF8");
+    expect(parsed.warnings).toEqual([
+      "statement_timeout is ignored: not supported by Bun's postgres client",
+      "target_session_attrs is ignored: not supported by Bun's postgres client",
+    ]);
+  });
+
+  it("drops parameters MySQL and SQLite don't understand", () => {
+    const mysql = parseConnectionString(
+      "mysql",
+      "mysql://u:p@db/app?statement_cache_size=0&application_name=api&sslaccept=strict&schema=x",
+    );
+    expect(mysql.url).toBe("mysql://u:p@db/app?sslaccept=strict");
+    expect(mysql.pool).toEqual({ prepare: false });
+    expect(mysql.warnings).toEqual([
+      "application_name is ignored: not supported by Bun's mysql client",
+      "schema is ignored: it only applies to Postgres",
+    ]);
+
+    const sqlite = parseConnectionString("sqlite", "file:./dev.db?mode=ro&connection_limit=1&pool_timeout=2&socket_timeout=3&cache=shared");
+    expect(sqlite.url).toBe("file:./dev.db?mode=ro");
+    expect(sqlite.pool).toEqual({ poolTimeout: 2 });
+    expect(sqlite.busyTimeout).toBe(3000);
+    expect(sqlite.warnings).toEqual(["cache is ignored: not supported by Bun's sqlite client"]);
+  });
+
+  it("rejects malformed numbers", () => {
+    expect(() => parseConnectionString("postgres", "postgres://db/app?connection_limit=0")).toThrow(
+      'Invalid connection_limit "0"',
+    );
+    expect(() => parseConnectionString("mysql", "mysql://db/app?pool_timeout=soon")).toThrow(
+      'Invalid pool_timeout "soon"',
+    );
+  });
+
+  it("configures the adapter, with explicit options taking precedence", async () => {
+    const warn = spyOn(console, "warn").mockImplementation(() => {});
+    try {
+      await withFakeBun(undefined, async ({ clients }) => {
+        const factory = new BunPostgresAdapter({
+          connectionString: "postgresql://u:p@db:5432/app?connection_limit=7&pool_timeout=3&socket_timeout=1",
+          poolTimeout: 20,
+        });
+        expect(factory.poolSettings).toMatchObject({ maxConnections: 7, poolTimeout: 20 });
+
+        const driver = await factory.connect();
+        await driver.queryRaw({ sql: "SELECT 1", args: [], argTypes: [] });
+        expect(clients[0].url).toMatchObject({ url: "postgresql://u:p@db:5432/app", max: 7 });
+        expect(warn).toHaveBeenCalledWith(
+          "prisma-bun-adapter: socket_timeout is ignored: Bun.sql has no socket timeout",
+        );
+        await driver.dispose();
+      });
+      expect(warn).toHaveBeenCalledTimes(1);
+      expect(new BunSQLiteAdapter("file:x.db?pool_timeout=2").poolSettings).toMatchObject({
+        maxConnections: 1,
+        poolTimeout: 2,
+      });
+    } finally {
+      warn.mockRestore();
+    }
+  });
+
+  it("sends warnings to the configured logger", async () => {
+    const warnings: string[] = [];
+    const driver = await new BunSQLiteAdapter({
+      filename: ":memory:?cache=shared",
+      logger: { warn: (message) => warnings.push(message) },
+    }).connect();
+    await driver.dispose();
+    expect(warnings).toEqual(["prisma-bun-adapter: cache is ignored: not supported by Bun's sqlite client"]);
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, expect, it } from "bun:test";
+import { normalizeConnectionString, pgConnectionCandidates } from "../src/credentials.ts";
+
+describe("connection string credentials", () => {
+  it("percent-encodes credentials once", () => {
+    expect(normalizeConnectionString("postgres://app:p@ss w@db:5432/app")).toBe(
+      "postgres://app:p%40ss%20w@db:5432/app",
+    );
+    expect(normalizeConnectionString("mysql://app:p%40ss@db/app")).toBe("mysql://app:p%40ss@db/app");
+  });
+
+  it("keeps unencoded / ? and # in passwords", () => {
+    expect(normalizeConnectionString("postgres://app:a/b?c#d@db:5432/app?sslmode=require")).toBe(
+      "postgres://app:a%2Fb%3Fc%23d@db:5432/app?sslmode=require",
+    );
+  });
+
+  it("leaves URLs without credentials and SQLite URLs alone", () => {
+    expect(normalizeConnectionString("postgres://db:5432/app?application_name=a@b")).toBe(
+      "postgres://db:5432/app?application_name=a@b",
+    );
+    expect(normalizeConnectionString("postgres://app:pw@db/app?application_name=a@b")).toBe(
+      "postgres://app:pw@db/app?application_name=a@b",
+    );
+    expect(normalizeConnectionString("file:./dev.db")).toBe("file:./dev.db");
+  });
+
+  it("falls back to the raw URL and a password query parameter", () => {
+    expect(pgConnectionCandidates("postgres://app:p@ss@db/app?sslmode=require")).toEqual([
+      "postgres://app:p%40ss@db/app?sslmode=require",
+      "postgres://app:p@ss@db/app?sslmode=require",
+      "postgres://app@db/app?sslmode=require&password=p%40ss",
+    ]);
+    expect(pgConnectionCandidates("postgres://db/app")).toEqual(["postgres://db/app"]);
+  });
+});
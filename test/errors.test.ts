@@ -0,0 +1,135 @@
+import { describe, expect, it } from "bun:test";
+import { isDriverAdapterError } from "@prisma/driver-adapter-utils";
+import { BunSQLiteAdapter } from "../src/index.ts";
+import { convertDriverError } from "../src/errors.ts";
+
+function fakeError(message: string, props: Record<string, unknown>) {
+  return Object.assign(new Error(message), props);
+}
+
+describe("convertDriverError", () => {
+  it("maps Postgres SQLSTATEs to Prisma error kinds", () => {
+    const unique = convertDriverError(
+      "postgres",
+      fakeError('duplicate key value violates unique constraint "User_email_key"', {
+        code: "ERR_POSTGRES_SERVER_ERROR",
+        errno: "23505",
+        severity: "ERROR",
+        detail: "Key (email)=(a@b.com) already exists.",
+      }),
+    );
+    expect(isDriverAdapterError(unique)).toBe(true);
+    expect((unique as any).cause).toMatchObject({
+      kind: "UniqueConstraintViolation",
+      constraint: { fields: ["email"] },
+      originalCode: "23505",
+    });
+
+    const fk = convertDriverError(
+      "postgres",
+      fakeError("insert or update violates foreign key constraint", {
+        errno: "23503",
+        constraint: "Post_authorId_fkey",
+      }),
+    );
+    expect((fk as any).cause).toMatchObject({
+      kind: "ForeignKeyConstraintViolation",
+      constraint: { index: "Post_authorId_fkey" },
+    });
+
+    const table = convertDriverError(
+      "postgres",
+      fakeError('relation "missing" does not exist', { errno: "42P01" }),
+    );
+    expect((table as any).cause).toMatchObject({
+      kind: "TableDoesNotExist",
+      table: "missing",
+    });
+
+    const conflict = convertDriverError(
+      "postgres",
+      fakeError("could not serialize access", { errno: "40001" }),
+    );
+    expect((conflict as any).cause.kind).toBe("TransactionWriteConflict");
+  });
+
+  it("maps MySQL errno values to Prisma error kinds", () => {
+    const unique = convertDriverError(
+      "mysql",
+      fakeError("Duplicate entry 'a@b.com' for key 'users.email'", {
+        code: "ERR_MYSQL_SERVER_ERROR",
+        errno: 1062,
+        sqlState: "23000",
+      }),
+    );
+    expect((unique as any).cause).toMatchObject({
+      kind: "UniqueConstraintViolation",
+      constraint: { index: "email" },
+    });
+
+    const auth = convertDriverError(
+      "mysql",
+      fakeError("Access denied for user 'app'@'localhost' (using password: YES)", {
+        errno: 1045,
+      }),
+    );
+    expect((auth as any).cause).toMatchObject({
+      kind: "AuthenticationFailed",
+      user: "app",
+    });
+
+    const column = convertDriverError(
+      "mysql",
+      fakeError("Unknown column 'nope' in 'field list'", { errno: 1054 }),
+    );
+    expect((column as any).cause).toMatchObject({
+      kind: "ColumnNotFound",
+      column: "nope",
+    });
+  });
+
+  it("leaves non-driver errors untouched", () => {
+    const plain = new Error("boom");
+    expect(convertDriverError("postgres", plain)).toBe(plain);
+    expect(convertDriverError("sqlite", "text")).toBe("text");
+  });
+});
+
+describe("BunSQLiteAdapter error mapping", () => {
+  it("surfaces constraint violations as DriverAdapterError", async () => {
+    const driver = await new BunSQLiteAdapter(":memory:").connect();
+    try {
+      await driver.executeScript(
+        "CREATE TABLE users (id INTEGER PRIMARY KEY, email TEXT NOT NULL UNIQUE)",
+      );
+      await driver.executeRaw({
+        sql: "INSERT INTO users (email) VALUES (?)",
+        args: ["a@b.com"],
+        argTypes: [],
+      });
+
+      const duplicate = await driver
+        .executeRaw({
+          sql: "INSERT INTO users (email) VALUES (?)",
+          args: ["a@b.com"],
+          argTypes: [],
+        })
+        .catch((err) => err);
+      expect(isDriverAdapterError(duplicate)).toBe(true);
+      expect(duplicate.cause).toMatchObject({
+        kind: "UniqueConstraintViolation",
+        constraint: { fields: ["email"] },
+      });
+
+      const missing = await driver
+        .queryRaw({ sql: "SELECT * FROM nope", args: [], argTypes: [] })
+        .catch((err) => err);
+      expect(missing.cause).toMatchObject({
+        kind: "TableDoesNotExist",
+        table: "nope",
+      });
+    } finally {
+      await driver.dispose();
+    }
+  });
+});
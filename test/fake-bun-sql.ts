@@ -0,0 +1,114 @@
+// Shared fake for Bun's SQL client so adapter behaviour can be tested
+// without a running Postgres/MySQL server.
+
+export type RecordedCall = {
+  sql: string;
+  values: any[];
+  type: "connection" | "reserved" | "release";
+  client: number;
+};
+
+export type FakeResponder = (call: RecordedCall) => any;
+
+export function joinSql(strings: TemplateStringsArray, values: any[]): string {
+  let sql = "";
+  for (let i = 0; i < strings.length; i++) {
+    sql += strings[i];
+    if (i < values.length) {
+      sql += `__arg${i}__`;
+    }
+  }
+  return sql.trim();
+}
+
+// Statements the Postgres adapters run to describe a result's columns
+export function isDescribeCall(call: RecordedCall): boolean {
+  return call.sql.includes("prisma_describe");
+}
+
+export function makeResult(rows: any[], extra: Record<string, any> = {}): any {
+  const result: any = [...rows];
+  result.count = rows.length;
+  result.command = "SELECT";
+  result.lastInsertRowid = null;
+  result.affectedRows = rows.length;
+  return Object.assign(result, extra);
+}
+
+const defaultResponder: FakeResponder = (call) =>
+  makeResult(call.values.length ? [{ value: call.values[0] }] : [{}]);
+
+export function installFakeBun(respond: FakeResponder = defaultResponder) {
+  const calls: RecordedCall[] = [];
+  const clients: { options: any; url: any }[] = [];
+
+  class FakeSql {
+    constructor(url?: any, options?: any) {
+      const client = clients.length;
+      clients.push({ url, options });
+
+      const run = (type: RecordedCall["type"]) =>
+        async (strings: TemplateStringsArray, ...values: any[]) => {
+          const call: RecordedCall = {
+            type,
+            sql: joinSql(strings, values),
+            values: [...values],
+            client,
+          };
+          calls.push(call);
+          return respond(call);
+        };
+
+      const handler: any = run("connection");
+      handler.options = options ?? {};
+      handler.close = async () => {};
+      handler.end = async () => {};
+      handler.begin = async () => handler;
+      handler.transaction = async (cb: any) => cb(handler);
+      handler.reserve = async () => {
+        const reserved: any = run("reserved");
+        reserved.release = async () => {
+          calls.push({ type: "release", sql: "release", values: [], client });
+        };
+        return reserved;
+      };
+
+      return handler;
+    }
+  }
+
+  const originalBun = (globalThis as any).Bun;
+  const originalSql = originalBun?.sql;
+  if (originalBun) {
+    originalBun.sql = FakeSql;
+  } else {
+    (globalThis as any).Bun = { sql: FakeSql };
+  }
+
+  return {
+    calls,
+    clients,
+    restore() {
+      if (originalBun) {
+        originalBun.sql = originalSql;
+      } else {
+        delete (globalThis as any).Bun;
+      }
+    },
+  };
+}
+
+export async function withFakeBun<T>(
+  respond: FakeResponder | undefined,
+  run: (ctx: {
+    calls: RecordedCall[];
+    clients: { options: any; url: any }[];
+  }) => Promise<T>,
+) {
+  const { calls, clients, restore } = installFakeBun(respond);
+  try {
+    return await run({ calls, clients });
+  } finally {
+    restore();
+  }
+}
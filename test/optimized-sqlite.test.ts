@@ -0,0 +1,188 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { ColumnTypeEnum } from "@prisma/driver-adapter-utils";
+import { BunSQLiteAdapter } from "../src/optimized-index.ts";
+import { sqliteFilename } from "../src/optimized-sqlite.ts";
+
+const query = (sql: string, args: unknown[] = []) => ({ sql, args, argTypes: [] as any[] });
+
+describe("sqliteFilename", () => {
+  it("turns connection strings into paths", () => {
+    expect(sqliteFilename("file:./dev.db")).toBe("./dev.db");
+    expect(sqliteFilename("file:///var/data/app.db?mode=ro")).toBe("/var/data/app.db");
+    expect(sqliteFilename("sqlite://./dev.db")).toBe("./dev.db");
+    expect(sqliteFilename("file::memory:")).toBe(":memory:");
+    expect(sqliteFilename("file:shared?mode=memory")).toBe(":memory:");
+  });
+});
+
+describe("optimized BunSQLiteAdapter", () => {
+  let driver: any;
+  beforeEach(async () => {
+    driver = await new BunSQLiteAdapter({ filename: ":memory:", templateCacheSize: 3 }).connect();
+    await driver.executeScript(`
+      CREATE TABLE "User" (
+        "id" INTEGER PRIMARY KEY,
+        "email" TEXT NOT NULL UNIQUE,
+        "active" BOOLEAN NOT NULL DEFAULT 1,
+        "visits" BIGINT,
+        "createdAt" DATETIME,
+        "avatar" BLOB,
+        "meta" JSONB
+      );
+    `);
+  });
+  afterEach(async () => {
+    await driver.dispose();
+  });
+
+  it("returns rows typed by their declared columns", async () => {
+    await driver.executeRaw(
+      query(
+        `INSERT INTO "User" ("email", "active", "visits", "createdAt", "avatar", "meta") VALUES (?, ?, ?, ?, ?, ?)`,
+        ["a@x.io", false, 9007199254740993n, 1700000000000, new Uint8Array([1, 2]), '{"a":1}'],
+      ),
+    );
+    const result = await driver.queryRaw(query(`SELECT * FROM "User"`));
+    expect(result.columnNames).toEqual([
+      "id",
+      "email",
+      "active",
+      "visits",
+      "createdAt",
+      "avatar",
+      "meta",
+    ]);
+    expect(result.columnTypes).toEqual([
+      ColumnTypeEnum.Int32,
+      ColumnTypeEnum.Text,
+      ColumnTypeEnum.Boolean,
+      ColumnTypeEnum.Int64,
+      ColumnTypeEnum.DateTime,
+      ColumnTypeEnum.Bytes,
+      ColumnTypeEnum.Json,
+    ]);
+    expect(result.rows).toEqual([
+      [1, "a@x.io", false, "9007199254740993", "2023-11-14T22:13:20.000Z", [1, 2], '{"a":1}'],
+    ]);
+  });
+
+  it("infers the types of expression columns from their values", async () => {
+    const result = await driver.queryRaw(
+      query("SELECT count(*) AS n, 1.5 AS ratio, NULL AS missing, 'x' AS label, 4294967296 AS big"),
+    );
+    expect(result.columnTypes).toEqual([
+      ColumnTypeEnum.Int32,
+      ColumnTypeEnum.Double,
+      ColumnTypeEnum.UnknownNumber,
+      ColumnTypeEnum.Text,
+      ColumnTypeEnum.Int64,
+    ]);
+    expect(result.rows).toEqual([[1, 1.5, null, "x", "4294967296"]]);
+  });
+
+  it("reuses prepared statements and finalizes evicted ones", async () => {
+    const sql = `SELECT "email" FROM "User" WHERE "id" = ?`;
+    await driver.executeRaw(query(`INSERT INTO "User" ("email") VALUES (?)`, ["a@x.io"]));
+    for (let i = 0; i < 3; i++) {
+      expect((await driver.queryRaw(query(sql, [1]))).rows).toEqual([["a@x.io"]]);
+    }
+    expect(driver.templateCacheStats()).toMatchObject({ size: 2, hits: 2, misses: 2 });
+
+    for (const n of [1, 2, 3]) await driver.queryRaw(query(`SELECT ${n}`));
+    expect(driver.templateCacheStats()).toMatchObject({ size: 3, capacity: 3, evictions: 2 });
+    expect((await driver.queryRaw(query(sql, [1]))).rows).toEqual([["a@x.io"]]);
+  });
+
+  it("drops cached statements when the schema changes", async () => {
+    await driver.queryRaw(query(`SELECT * FROM "User"`));
+    await driver.executeRaw(query(`ALTER TABLE "User" ADD COLUMN "name" TEXT`));
+    const result = await driver.queryRaw(query(`SELECT * FROM "User"`));
+    expect(result.columnNames).toContain("name");
+  });
+
+  it("drops cached statements when a commented migration changes the schema", async () => {
+    await driver.queryRaw(query(`SELECT * FROM "User"`));
+    await driver.executeRaw(
+      query(`-- migration\n/* add name */ ALTER TABLE "User" ADD COLUMN "name" TEXT`),
+    );
+    const result = await driver.queryRaw(query(`SELECT * FROM "User"`));
+    expect(result.columnNames).toContain("name");
+  });
+
+  it("rejects argument counts that don't match the placeholders", async () => {
+    await expect(driver.queryRaw(query("SELECT 1", [1]))).rejects.toThrow(
+      "Query has 1 arguments but no placeholders",
+    );
+    await expect(driver.queryRaw(query("SELECT ?, ?", [1]))).rejects.toThrow(
+      "Query has 2 placeholders but 1 arguments",
+    );
+  });
+
+  it("reports affected rows and maps constraint errors", async () => {
+    const insert = `INSERT INTO "User" ("email") VALUES (?), (?)`;
+    expect(await driver.executeRaw(query(insert, ["a@x.io", "b@x.io"]))).toBe(2);
+    const error = await driver.executeRaw(query(insert, ["c@x.io", "a@x.io"])).catch((e: any) => e);
+    expect(error.cause?.kind).toBe("UniqueConstraintViolation");
+  });
+
+  it("commits, rolls back and nests transactions", async () => {
+    const insert = (email: string) => query(`INSERT INTO "User" ("email") VALUES (?)`, [email]);
+    const tx = await driver.startTransaction();
+    await tx.executeRaw(insert("a@x.io"));
+    await tx.savepoint(async () => {
+      await tx.executeRaw(insert("b@x.io"));
+      throw new Error("undo b");
+    }).catch(() => {});
+    await tx.commit();
+
+    const rolledBack = await driver.startTransaction();
+    await rolledBack.executeRaw(insert("c@x.io"));
+    await rolledBack.rollback();
+    await expect(rolledBack.executeRaw(insert("d@x.io"))).rejects.toThrow(
+      "Transaction is already closed",
+    );
+
+    const result = await driver.queryRaw(query(`SELECT "email" FROM "User"`));
+    expect(result.rows).toEqual([["a@x.io"]]);
+  });
+});
+
+describe("optimized BunSQLiteAdapter connection options", () => {
+  let dir: string;
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "bun-adapter-optimized-sqlite-"));
+  });
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("applies pragmas and honors read-only URLs", async () => {
+    const filename = join(dir, "app.db");
+    const writer = await new BunSQLiteAdapter(`file:${filename}?socket_timeout=2`).connect();
+    try {
+      expect((await writer.queryRaw(query("PRAGMA journal_mode"))).rows).toEqual([["wal"]]);
+      expect((await writer.queryRaw(query("PRAGMA busy_timeout"))).rows).toEqual([[2000]]);
+      expect(writer.getConnectionInfo?.().maxBindValues).toBe(32766);
+      await writer.executeScript("CREATE TABLE t (v INTEGER)");
+    } finally {
+      await writer.dispose();
+    }
+
+    const reader = await new BunSQLiteAdapter(`file:${filename}?mode=ro`).connect();
+    try {
+      expect((await reader.queryRaw(query("SELECT count(*) FROM t"))).rows).toEqual([[0]]);
+      await expect(reader.executeRaw(query("INSERT INTO t VALUES (1)"))).rejects.toThrow(
+        /readonly/,
+      );
+    } finally {
+      await reader.dispose();
+    }
+
+    const missing = await new BunSQLiteAdapter({ filename: join(dir, "missing.db"), create: false }).connect();
+    await expect(missing.queryRaw(query("SELECT 1"))).rejects.toThrow();
+    await missing.dispose();
+  });
+});
@@ -0,0 +1,188 @@
+import { afterEach, beforeEach, describe, expect, it, spyOn } from "bun:test";
+import { BunPostgresAdapter } from "../src/index.ts";
+import { BunPostgresAdapter as OptimizedBunPostgresAdapter } from "../src/optimized-index.ts";
+import { PGBOUNCER_STARTUP_PARAMS, sessionFeature } from "../src/pgbouncer.ts";
+import { makeResult, withFakeBun, type RecordedCall } from "./fake-bun-sql.ts";
+
+const PGBOUNCER_URL = process.env.TEST_PGBOUNCER_URL;
+
+function pgError(code: string, message: string) {
+  return Object.assign(new Error(message), { code, errno: code });
+}
+
+// Runs `run` against a fake server behind PgBouncer in transaction mode:
+// named statements collide across clients, unknown startup parameters are
+// refused, and session state outside a reserved connection would land on a
+// random backend.
+function withFakePooler<T>(run: Parameters<typeof withFakeBun<T>>[1]) {
+  let clients: { url: any }[] = [];
+  const respond = (call: RecordedCall) => {
+    const options = clients[call.client].url;
+    if (options.prepare !== false) {
+      throw pgError("42P05", 'prepared statement "bun_1" already exists');
+    }
+    for (const name of new URL(options.url).searchParams.keys()) {
+      if (!PGBOUNCER_STARTUP_PARAMS.has(name.toLowerCase()) && name !== "sslmode") {
+        throw pgError("08P01", `unsupported startup parameter: ${name}`);
+      }
+    }
+    if (sessionFeature(call.sql)) {
+      throw new Error(`session state leaked through the pooler: ${call.sql}`);
+    }
+    return makeResult([{ ok: 1 }]);
+  };
+  return withFakeBun(respond, (ctx) => {
+    clients = ctx.clients;
+    return run(ctx);
+  });
+}
+
+const select = { sql: "SELECT 1 AS ok", args: [], argTypes: [] };
+const exec = (sql: string) => ({ sql, args: [], argTypes: [] });
+
+for (const [name, Adapter] of [
+  ["standard", BunPostgresAdapter],
+  ["optimized", OptimizedBunPostgresAdapter],
+] as const) {
+  describe(`${name} adapter in pgbouncer mode`, () => {
+    let warn: ReturnType<typeof spyOn>;
+    beforeEach(() => {
+      warn = spyOn(console, "warn").mockImplementation(() => {});
+    });
+    afterEach(() => warn.mockRestore());
+
+    it("uses unnamed statements and drops unsupported startup parameters", async () => {
+      await withFakePooler(async ({ clients }) => {
+        const factory = new Adapter(
+          "postgres://u:p@pooler:6543/app?pgbouncer=true&application_name=api&options=-c%20statement_timeout%3D5000&schema=billing",
+        );
+        expect(factory.poolSettings.prepare).toBe(false);
+        const driver = await factory.connect();
+
+        await driver.queryRaw(select);
+        await driver.queryRaw(select);
+        expect(clients[0].url).toMatchObject({
+          url: "postgres://u:p@pooler:6543/app?application_name=api",
+          prepare: false,
+        });
+        expect(warn).toHaveBeenCalledWith(
+          expect.stringContaining("options is ignored: PgBouncer only accepts"),
+        );
+        expect(warn).toHaveBeenCalledWith(
+          expect.stringContaining("schema only sets search_path inside transactions in pgbouncer mode"),
+        );
+        await driver.dispose();
+      });
+    });
+
+    it("rejects session state outside and inside transactions", async () => {
+      await withFakePooler(async ({ calls }) => {
+        const driver = await new Adapter({
+          connectionString: "postgres://u:p@pooler:6543/app",
+          pgbouncer: true,
+        }).connect();
+
+        await expect(driver.executeRaw(exec("SET search_path TO billing"))).rejects.toThrow(
+          "pgbouncer mode does not support SET without LOCAL",
+        );
+        await expect(driver.executeScript("SELECT 1; LISTEN jobs")).rejects.toThrow(
+          "pgbouncer mode does not support LISTEN",
+        );
+
+        const tx = await driver.startTransaction();
+        await tx.executeRaw(exec("SET LOCAL search_path TO billing"));
+        await expect(tx.queryRaw(exec("SELECT pg_advisory_lock(1)"))).rejects.toThrow(
+          "pgbouncer mode does not support session-level advisory locks",
+        );
+        await tx.executeRaw(exec("SELECT pg_advisory_xact_lock(1)"));
+        await tx.commit();
+
+        const sent = calls.map((call) => call.sql);
+        expect(sent).toContain("SET LOCAL search_path TO billing");
+        expect(sent).toContain("COMMIT");
+        expect(sent.some((sql) => sessionFeature(sql))).toBe(false);
+        await driver.dispose();
+      });
+    });
+
+    it("refuses prepared statements in pgbouncer mode", () => {
+      const factory = new Adapter({
+        connectionString: "postgres://u:p@pooler:6543/app",
+        pgbouncer: true,
+        prepare: true,
+      });
+      expect(() => factory.poolSettings).toThrow("prepare: true cannot be combined with pgbouncer mode");
+    });
+
+    it("lets the config turn off ?pgbouncer=true", async () => {
+      const factory = new Adapter({
+        connectionString: "postgres://u:p@db:5432/app?pgbouncer=true",
+        pgbouncer: false,
+      });
+      expect(factory.poolSettings.prepare).toBe(true);
+      await withFakeBun(undefined, async () => {
+        const driver = await factory.connect();
+        await driver.executeRaw(exec("SET search_path TO billing"));
+        await driver.dispose();
+      });
+    });
+  });
+}
+
+describe("session feature detection", () => {
+  it("flags statements that outlive their transaction", () => {
+    expect(sessionFeature("set statement_timeout = 0")).toBe("SET without LOCAL");
+    expect(sessionFeature("/* app */ SET SESSION AUTHORIZATION bob")).toBe("SET without LOCAL");
+    expect(sessionFeature("RESET ALL")).toBe("RESET");
+    expect(sessionFeature("PREPARE q AS SELECT 1")).toBe("PREPARE");
+    expect(sessionFeature("DECLARE c CURSOR WITH HOLD FOR SELECT 1")).toBe("WITH HOLD cursors");
+    expect(sessionFeature("CREATE TEMP TABLE t (id int)")).toBe("temporary tables without ON COMMIT DROP");
+    expect(sessionFeature("SELECT set_config('app.user', '1', false)")).toBe("set_config(..., false)");
+  });
+
+  it("allows transaction-scoped variants", () => {
+    for (const sql of [
+      "SET LOCAL statement_timeout = 0",
+      "SET TRANSACTION ISOLATION LEVEL SERIALIZABLE",
+      "SET CONSTRAINTS ALL DEFERRED",
+      "CREATE TEMPORARY TABLE t (id int) ON COMMIT DROP",
+      "SELECT pg_advisory_xact_lock(1)",
+      "SELECT set_config('app.user', '1', true)",
+      "SELECT * FROM settings WHERE name = 'SET x'",
+    ]) {
+      expect(sessionFeature(sql)).toBeNull();
+    }
+  });
+});
+
+for (const [name, Adapter] of [
+  ["standard", BunPostgresAdapter],
+  ["optimized", OptimizedBunPostgresAdapter],
+] as const) {
+  describe.skipIf(!PGBOUNCER_URL)(`${name} adapter behind PgBouncer`, () => {
+    it("runs repeated queries and transactions in transaction pooling mode", async () => {
+      const driver = await new Adapter({
+        connectionString: PGBOUNCER_URL!,
+        pgbouncer: true,
+        maxConnections: 4,
+      }).connect();
+      try {
+        const query = { sql: "SELECT $1::int AS n", args: [1], argTypes: [] as any[] };
+        for (let round = 0; round < 3; round++) {
+          const results = await Promise.all(
+            Array.from({ length: 8 }, (_, n) => driver.queryRaw({ ...query, args: [n] })),
+          );
+          expect(results.map((r) => r.rows[0][0])).toEqual([0, 1, 2, 3, 4, 5, 6, 7]);
+        }
+
+        const tx = await driver.startTransaction("SERIALIZABLE");
+        await tx.executeRaw(exec("SET LOCAL application_name = 'pgbouncer-test'"));
+        const inside = await tx.queryRaw(exec("SELECT current_setting('application_name') AS a"));
+        await tx.commit();
+        expect(inside.rows).toEqual([["pgbouncer-test"]]);
+      } finally {
+        await driver.dispose();
+      }
+    });
+  });
+}
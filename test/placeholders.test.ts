@@ -0,0 +1,126 @@
+import { describe, expect, it } from "bun:test";
+import { BunMySQLAdapter, BunPostgresAdapter, BunSQLiteAdapter } from "../src/index.ts";
+import { BunPostgresAdapter as OptimizedBunPostgresAdapter } from "../src/optimized-index.ts";
+import { compilePlaceholders } from "../src/placeholders.ts";
+import { isDescribeCall, makeResult, withFakeBun } from "./fake-bun-sql.ts";
+
+// The compiled query with each slot shown as ${argument index}
+function rewrite(provider: "postgres" | "mysql" | "sqlite", sql: string, argCount: number) {
+  const { strings, argOrder } = compilePlaceholders(provider, sql, argCount);
+  return strings.reduce((out, part, i) => out + (i ? "${" + argOrder[i - 1] + "}" : "") + part, "");
+}
+
+describe("placeholder lexer", () => {
+  it("rewrites Postgres $n outside literals, identifiers and dollar quotes", () => {
+    const sql = [
+      `SELECT "price$1", $2 AS b, '$1 off', E'it\\'s $1', $1`,
+      `-- $3 in a comment`,
+      `/* outer /* nested $3 */ still comment $3 */`,
+      `FROM f($fn$ BEGIN RETURN $1; END $fn$, $$ $2 $$, price$1, $3)`,
+    ].join("\n");
+    expect(rewrite("postgres", sql, 3).split("\n")).toEqual([
+      `SELECT "price$1", \${1} AS b, '$1 off', E'it\\'s $1', \${0}`,
+      `-- $3 in a comment`,
+      `/* outer /* nested $3 */ still comment $3 */`,
+      `FROM f($fn$ BEGIN RETURN $1; END $fn$, $$ $2 $$, price$1, \${2})`,
+    ]);
+  });
+
+  it("leaves Postgres ? operators alone once $n placeholders are used", () => {
+    expect(rewrite("postgres", "SELECT data ? 'key', data ?| $1 FROM t", 1)).toBe(
+      "SELECT data ? 'key', data ?| ${0} FROM t",
+    );
+    expect(rewrite("postgres", "SELECT ? AS a, '?' AS b, ? AS c", 2)).toBe(
+      "SELECT ${0} AS a, '?' AS b, ${1} AS c",
+    );
+  });
+
+  it("follows MySQL's quoting and comment rules", () => {
+    const sql = "SELECT 'it\\'s ?', \"?\", `col?`, ? # trailing ?\n, 1--1, ? -- comment ?";
+    expect(rewrite("mysql", sql, 2)).toBe(
+      "SELECT 'it\\'s ?', \"?\", `col?`, ${0} # trailing ?\n, 1--1, ${1} -- comment ?",
+    );
+  });
+
+  it("numbers SQLite ?NNN and named placeholders like SQLite does", () => {
+    expect(rewrite("sqlite", "SELECT :id, [odd:col], ?, @id, :id, ?1, $name", 4)).toBe(
+      "SELECT ${0}, [odd:col], ${1}, ${2}, ${0}, ${0}, ${3}",
+    );
+  });
+
+  it("requires placeholders to cover exactly the supplied arguments", () => {
+    expect(() => compilePlaceholders("postgres", "SELECT $1, $3", 3)).toThrow(
+      "Argument 2 of 3 is not used by any placeholder",
+    );
+    expect(() => compilePlaceholders("postgres", "SELECT $1, $2", 1)).toThrow(
+      "Placeholder $2 has no matching argument (1 given)",
+    );
+    expect(() => compilePlaceholders("mysql", "SELECT '?'", 1)).toThrow(
+      "Query has 1 arguments but no placeholders",
+    );
+    expect(() => compilePlaceholders("sqlite", "SELECT ?, ?", 1)).toThrow(
+      "Placeholder ? has no matching argument (1 given)",
+    );
+  });
+});
+
+describe("adapters use the lexer", () => {
+  for (const [name, Adapter] of [
+    ["standard", BunPostgresAdapter],
+    ["optimized", OptimizedBunPostgresAdapter],
+  ] as const) {
+    it(`${name} Postgres adapter binds in and outside transactions`, async () => {
+      await withFakeBun(undefined, async ({ calls }) => {
+        const driver = await new Adapter("postgres://u:p@db:5432/app").connect();
+        const query = { sql: `SELECT "a$1", $2, '$1', $1`, args: ["one", "two"], argTypes: [] };
+        await driver.queryRaw(query);
+        const tx = await driver.startTransaction();
+        await tx.queryRaw(query);
+        await tx.commit();
+        await expect(driver.queryRaw({ ...query, args: ["one"] })).rejects.toThrow(
+          "Placeholder $2 has no matching argument (1 given)",
+        );
+
+        const bound = calls.filter(
+          (call) => call.sql.includes('"a$1"') && !isDescribeCall(call),
+        );
+        expect(bound).toHaveLength(2);
+        for (const call of bound) {
+          expect(call.sql).toBe(`SELECT "a$1", __arg0__, '$1', __arg1__`);
+          expect(call.values).toEqual(["two", "one"]);
+        }
+        await driver.dispose();
+      });
+    });
+  }
+
+  it("MySQL adapter skips ? in strings and comments", async () => {
+    await withFakeBun(
+      () => makeResult([]),
+      async ({ calls }) => {
+        const driver = await new BunMySQLAdapter("mysql://u:p@db:3306/app").connect();
+        await driver.executeRaw({
+          sql: "UPDATE t SET note = 'why?' /* ? */ WHERE id = ?",
+          args: [7],
+          argTypes: [],
+        });
+        expect(calls.at(-1)).toMatchObject({
+          sql: "UPDATE t SET note = 'why?' /* ? */ WHERE id = __arg0__",
+          values: [7],
+        });
+        await driver.dispose();
+      },
+    );
+  });
+
+  it("SQLite adapter binds named placeholders", async () => {
+    const driver = await new BunSQLiteAdapter(":memory:").connect();
+    const result = await driver.queryRaw({
+      sql: "SELECT :a AS a, '?' AS q, :b AS b, :a || :b AS ab",
+      args: ["x", "y"],
+      argTypes: [],
+    });
+    expect(result.rows).toEqual([["x", "?", "y", "xy"]]);
+    await driver.dispose();
+  });
+});
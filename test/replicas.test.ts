@@ -0,0 +1,140 @@
+import { describe, expect, it } from "bun:test";
+import { BunPostgresAdapter, withPrimary, withReplicaSession } from "../src/index.ts";
+import { BunPostgresAdapter as OptimizedBunPostgresAdapter } from "../src/optimized-index.ts";
+import { isReadOnlyQuery } from "../src/replicas.ts";
+import { makeResult, withFakeBun } from "./fake-bun-sql.ts";
+
+const url = (host: string) => `postgresql://user:pass@${host}:5432/testdb`;
+const query = (sql: string) => ({ sql, args: [], argTypes: [] });
+const READ = query(`SELECT "id" FROM "User"`);
+const WRITE = query(`UPDATE "User" SET "name" = 'x'`);
+
+function hostsOf(calls: any[], clients: any[], sql: string) {
+  return calls
+    .filter((c) => c.sql === sql)
+    .map((c) => new URL(clients[c.client].url.url).hostname);
+}
+
+describe("read replicas", () => {
+  it("classifies read-only statements", () => {
+    expect(isReadOnlyQuery(`SELECT 1`)).toBe(true);
+    expect(isReadOnlyQuery(`/* prisma */ (SELECT "a" FROM "t")`)).toBe(true);
+    expect(isReadOnlyQuery(`WITH x AS (SELECT 1) SELECT * FROM x`)).toBe(true);
+    expect(isReadOnlyQuery(`SELECT * FROM "t" FOR UPDATE`)).toBe(false);
+    expect(isReadOnlyQuery(`WITH x AS (DELETE FROM t RETURNING *) SELECT * FROM x`)).toBe(false);
+    expect(isReadOnlyQuery(`INSERT INTO "t" VALUES (1) RETURNING "id"`)).toBe(false);
+    expect(isReadOnlyQuery(`SELECT nextval('seq')`)).toBe(false);
+  });
+
+  for (const [name, Adapter] of [
+    ["standard", BunPostgresAdapter],
+    ["optimized", OptimizedBunPostgresAdapter],
+  ] as const) {
+    it(`sends reads to replicas and writes to the primary (${name})`, async () => {
+      await withFakeBun(undefined, async ({ calls, clients }) => {
+        const driver = await new Adapter({
+          connectionString: url("primary"),
+          replicas: [url("replica1"), url("replica2")],
+          replicaOptions: { stickyPrimary: 60 },
+        }).connect();
+
+        await withReplicaSession(async () => {
+          await driver.queryRaw(READ);
+          await driver.queryRaw(READ);
+          await driver.executeRaw(WRITE);
+          await driver.queryRaw(READ); // sticky after this session's write
+        });
+        await withReplicaSession(() => driver.queryRaw(READ));
+        await withReplicaSession(() => withPrimary(() => driver.queryRaw(READ)));
+        await withReplicaSession(async () => {
+          const tx = await driver.startTransaction();
+          await tx.queryRaw(READ);
+          await tx.commit();
+        });
+
+        expect(hostsOf(calls, clients, READ.sql)).toEqual([
+          "replica1",
+          "replica2",
+          "primary",
+          "replica1",
+          "primary",
+          "primary",
+        ]);
+        expect(hostsOf(calls, clients, WRITE.sql)).toEqual(["primary"]);
+        await driver.dispose();
+      });
+    });
+  }
+
+  for (const [name, Adapter] of [
+    ["standard", BunPostgresAdapter],
+    ["optimized", OptimizedBunPostgresAdapter],
+  ] as const) {
+    it(`sizes replica pools from their own connection string (${name})`, async () => {
+      await withFakeBun(undefined, async ({ clients }) => {
+        const driver = await new Adapter({
+          connectionString: url("primary"),
+          maxConnections: 9,
+          replicas: [`${url("replica1")}?connection_limit=3&pool_timeout=2`, url("replica2")],
+        }).connect();
+        await withReplicaSession(async () => {
+          await driver.queryRaw(READ);
+          await driver.queryRaw(READ);
+        });
+        await driver.queryRaw(WRITE);
+
+        const maxOf = (host: string) =>
+          clients.find((c) => new URL(c.url.url).hostname === host)?.url.max;
+        expect(maxOf("replica1")).toBe(3);
+        expect(maxOf("replica2")).toBe(9);
+        expect(maxOf("primary")).toBe(9);
+        await driver.dispose();
+      });
+    });
+  }
+
+  it("pins reads after writes outside any session", async () => {
+    await withFakeBun(undefined, async ({ calls, clients }) => {
+      const driver = await new BunPostgresAdapter({
+        connectionString: url("primary"),
+        replicas: [url("replica1")],
+      }).connect();
+      await driver.queryRaw(READ);
+      await driver.queryRaw(query(`INSERT INTO "User" ("id") VALUES (1) RETURNING "id"`));
+      await driver.queryRaw(READ);
+
+      expect(hostsOf(calls, clients, READ.sql)).toEqual(["replica1", "primary"]);
+      await driver.dispose();
+    });
+  });
+
+  it("skips failing replicas and retries reads on the primary", async () => {
+    let clients: any[] = [];
+    const respond = (call: any) => {
+      const host = new URL(clients[call.client].url.url).hostname;
+      if (host === "replica1" && call.sql === READ.sql) {
+        throw Object.assign(new Error("connect ECONNREFUSED"), { code: "ECONNREFUSED" });
+      }
+      return makeResult([{ id: 1 }]);
+    };
+    await withFakeBun(respond, async (ctx) => {
+      clients = ctx.clients;
+      const driver = await new BunPostgresAdapter({
+        connectionString: url("primary"),
+        replicas: [url("replica1"), url("replica2")],
+      }).connect();
+
+      const results = [];
+      for (let i = 0; i < 3; i++) results.push(await driver.queryRaw(READ));
+
+      expect(results.every((r) => r.rows.length === 1)).toBe(true);
+      expect(hostsOf(ctx.calls, clients, READ.sql)).toEqual([
+        "replica1",
+        "primary",
+        "replica2",
+        "replica2",
+      ]);
+      await driver.dispose();
+    });
+  });
+});
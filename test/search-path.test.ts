@@ -0,0 +1,116 @@
+import { describe, expect, it, spyOn } from "bun:test";
+import { BunPostgresAdapter } from "../src/index.ts";
+import { BunPostgresAdapter as OptimizedBunPostgresAdapter } from "../src/optimized-index.ts";
+import { withFakeBun } from "./fake-bun-sql.ts";
+
+const POSTGRES_URL = process.env.TEST_POSTGRES_URL;
+const exec = (sql: string) => ({ sql, args: [], argTypes: [] });
+
+for (const [name, Adapter] of [
+  ["standard", BunPostgresAdapter],
+  ["optimized", OptimizedBunPostgresAdapter],
+] as const) {
+  describe(`${name} adapter schema`, () => {
+    it("sets search_path on every connection and reports the schema", async () => {
+      await withFakeBun(undefined, async ({ calls, clients }) => {
+        const driver = await new Adapter({
+          connectionString: "postgres://u:p@db:5432/app?schema=public",
+          schema: "billing",
+        }).connect();
+        expect(driver.getConnectionInfo?.()).toEqual({
+          schemaName: "billing",
+          maxBindValues: 65535,
+          supportsRelationJoins: true,
+        });
+
+        await driver.queryRaw(exec("SELECT 1"));
+        const tx = await driver.startTransaction();
+        await tx.commit();
+        // Bun.sql sends URL parameters as startup parameters of each connection
+        // it opens, reserved ones included (checked against a server below)
+        expect(clients).toHaveLength(1);
+        expect(clients[0].url.url).toBe("postgres://u:p@db:5432/app?search_path=%22billing%22");
+        expect(calls.some((call) => call.sql.includes("search_path"))).toBe(false);
+        await driver.dispose();
+      });
+    });
+
+    it("sets search_path per transaction in pgbouncer mode", async () => {
+      const warn = spyOn(console, "warn").mockImplementation(() => {});
+      try {
+        await withFakeBun(undefined, async ({ calls, clients }) => {
+          const driver = await new Adapter({
+            connectionString: "postgres://u:p@pooler:6543/app?pgbouncer=true",
+            schema: 'my "billing"',
+          }).connect();
+          const tx = await driver.startTransaction("SERIALIZABLE");
+          await tx.commit();
+          expect(clients[0].url.url).toBe("postgres://u:p@pooler:6543/app");
+          expect(calls.filter((call) => call.type === "reserved").map((call) => call.sql)).toEqual([
+            "BEGIN ISOLATION LEVEL SERIALIZABLE",
+            'SET LOCAL search_path TO "my ""billing"""',
+            "COMMIT",
+          ]);
+          await driver.dispose();
+        });
+      } finally {
+        warn.mockRestore();
+      }
+    });
+
+    it("reports no schema when none is configured", async () => {
+      await withFakeBun(undefined, async () => {
+        const driver = await new Adapter("postgres://u:p@db:5432/app").connect();
+        expect(driver.getConnectionInfo?.().schemaName).toBeUndefined();
+        await driver.dispose();
+      });
+    });
+  });
+
+  describe.skipIf(!POSTGRES_URL)(`${name} adapter schema integration`, () => {
+    it("resolves unqualified names in the schema, in and outside transactions", async () => {
+      const schema = 'bun search_path "x"';
+      const quoted = '"bun search_path ""x"""';
+      const setup = await new Adapter(POSTGRES_URL!).connect();
+      await setup.executeScript(
+        `DROP SCHEMA IF EXISTS ${quoted} CASCADE; CREATE SCHEMA ${quoted}; ` +
+          `CREATE TABLE ${quoted}.invoices (id int); INSERT INTO ${quoted}.invoices VALUES (1)`,
+      );
+      const driver = await new Adapter({
+        connectionString: POSTGRES_URL!,
+        schema,
+        maxConnections: 2,
+      }).connect();
+      try {
+        // Concurrent reads spread over both pooled connections
+        const reads = await Promise.all(
+          [1, 2, 3].map(() =>
+            driver.queryRaw(
+              exec(
+                "SELECT pg_backend_pid() AS pid, current_schema() AS s, " +
+                  "(SELECT count(*)::int FROM invoices) AS n FROM pg_sleep(0.05)",
+              ),
+            ),
+          ),
+        );
+        expect(new Set(reads.map((r) => r.rows[0][0])).size).toBe(2);
+        expect(reads.map((r) => r.rows[0].slice(1))).toEqual([
+          [schema, 1],
+          [schema, 1],
+          [schema, 1],
+        ]);
+
+        const tx = await driver.startTransaction();
+        await tx.executeRaw(exec("INSERT INTO invoices VALUES (2)"));
+        const inside = await tx.queryRaw(exec("SELECT current_schema() AS s"));
+        await tx.commit();
+        expect(inside.rows).toEqual([[schema]]);
+        expect((await driver.queryRaw(exec("SELECT count(*)::int AS n FROM invoices"))).rows).toEqual([[2]]);
+      } finally {
+        await driver.dispose();
+        await setup.executeScript(`DROP SCHEMA ${quoted} CASCADE`);
+        await setup.dispose();
+      }
+    });
+  });
+}
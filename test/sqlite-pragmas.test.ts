@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { BunSQLiteAdapter } from "../src/index.ts";
+import { sqlitePragmaStatements } from "../src/sqlite-pragmas.ts";
+
+const query = (sql: string) => ({ sql, args: [], argTypes: [] });
+
+describe("sqlitePragmaStatements", () => {
+  it("applies Prisma-friendly defaults", () => {
+    expect(sqlitePragmaStatements()).toEqual([
+      "PRAGMA busy_timeout = 5000",
+      "PRAGMA journal_mode = WAL",
+      "PRAGMA synchronous = NORMAL",
+      "PRAGMA foreign_keys = ON",
+    ]);
+  });
+
+  it("merges overrides and extra pragmas", () => {
+    expect(
+      sqlitePragmaStatements({
+        foreignKeys: false,
+        journalMode: "DELETE",
+        synchronous: "FULL",
+        busyTimeout: 0,
+        extra: { cache_size: -20000, temp_store: "MEMORY", recursive_triggers: true, encoding: "UTF-8" },
+      }),
+    ).toEqual([
+      "PRAGMA busy_timeout = 0",
+      "PRAGMA journal_mode = DELETE",
+      "PRAGMA synchronous = FULL",
+      "PRAGMA foreign_keys = OFF",
+      "PRAGMA cache_size = -20000",
+      "PRAGMA temp_store = MEMORY",
+      "PRAGMA recursive_triggers = ON",
+      "PRAGMA encoding = 'UTF-8'",
+    ]);
+  });
+
+  it("leaves the journal mode of read-only databases alone", () => {
+    expect(sqlitePragmaStatements({}, true)).not.toContain("PRAGMA journal_mode = WAL");
+  });
+
+  it("rejects values that can't be inlined safely", () => {
+    expect(() => sqlitePragmaStatements({ busyTimeout: -1 })).toThrow(
+      "Invalid SQLite pragma busyTimeout: -1",
+    );
+    expect(() => sqlitePragmaStatements({ journalMode: "wal; DROP TABLE t" as any })).toThrow(
+      "Invalid SQLite pragma journalMode",
+    );
+    expect(() => sqlitePragmaStatements({ extra: { "x = 1; --": 1 } })).toThrow(
+      "Invalid SQLite pragma x = 1; --",
+    );
+  });
+});
+
+describe("BunSQLiteAdapter connection options", () => {
+  let dir: string;
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "bun-adapter-sqlite-"));
+  });
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const pragma = async (driver: any, name: string) =>
+    (await driver.queryRaw(query(`PRAGMA ${name}`))).rows[0][0];
+
+  it("applies the pragma profile to the connection", async () => {
+    const driver = await new BunSQLiteAdapter({ filename: join(dir, "app.db") }).connect();
+    try {
+      expect(await pragma(driver, "journal_mode")).toBe("wal");
+      expect(Number(await pragma(driver, "synchronous"))).toBe(1);
+      expect(Number(await pragma(driver, "foreign_keys"))).toBe(1);
+      expect(Number(await pragma(driver, "busy_timeout"))).toBe(5000);
+
+      await driver.executeScript(`
+        CREATE TABLE "User" ("id" INTEGER PRIMARY KEY);
+        CREATE TABLE "Post" ("id" INTEGER PRIMARY KEY, "authorId" INTEGER NOT NULL REFERENCES "User" ("id"));
+      `);
+      const error = await driver
+        .executeRaw(query(`INSERT INTO "Post" ("authorId") VALUES (1)`))
+        .catch((e) => e);
+      expect(error.cause?.kind).toBe("ForeignKeyConstraintViolation");
+    } finally {
+      await driver.dispose();
+    }
+  });
+
+  it("takes busy_timeout from Prisma's socket_timeout", async () => {
+    const url = `file:${join(dir, "app.db")}?socket_timeout=2`;
+    const driver = await new BunSQLiteAdapter(url).connect();
+    try {
+      expect(Number(await pragma(driver, "busy_timeout"))).toBe(2000);
+    } finally {
+      await driver.dispose();
+    }
+  });
+
+  it("honors readonly and create", async () => {
+    const filename = join(dir, "app.db");
+
+    const missing = await new BunSQLiteAdapter({ filename, create: false }).connect();
+    await expect(missing.queryRaw(query("SELECT 1"))).rejects.toThrow();
+    await missing.dispose();
+
+    const writer = await new BunSQLiteAdapter({ filename }).connect();
+    await writer.executeScript("CREATE TABLE t (v INTEGER)");
+    await writer.dispose();
+
+    const reader = await new BunSQLiteAdapter({ filename, readonly: true }).connect();
+    try {
+      expect((await reader.queryRaw(query("SELECT count(*) FROM t"))).rows).toEqual([[0]]);
+      await expect(reader.executeRaw(query("INSERT INTO t VALUES (1)"))).rejects.toThrow(
+        /readonly/,
+      );
+    } finally {
+      await reader.dispose();
+    }
+  });
+});
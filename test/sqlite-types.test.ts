@@ -0,0 +1,150 @@
+import { describe, expect, it } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { ColumnTypeEnum } from "@prisma/driver-adapter-utils";
+import { BunSQLiteAdapter } from "../src/index.ts";
+
+const SCHEMA = `
+  CREATE TABLE "User" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" DATETIME NOT NULL,
+    "balance" DECIMAL NOT NULL,
+    "views" BIGINT NOT NULL,
+    "avatar" BLOB,
+    "name" TEXT
+  )
+`;
+
+const query = (sql: string, args: unknown[] = []) => ({ sql, args, argTypes: [] as any[] });
+
+async function withDatabaseFile(run: (filename: string) => Promise<void>) {
+  const dir = mkdtempSync(join(tmpdir(), "bun-adapter-sqlite-types-"));
+  try {
+    await run(join(dir, "app.db"));
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+describe("SQLite result typing", () => {
+  it("types columns from their declared types", async () => {
+    await withDatabaseFile(async (filename) => {
+      const driver = await new BunSQLiteAdapter({ filename }).connect();
+      try {
+        await driver.executeScript(SCHEMA);
+        const inserted = await driver.queryRaw(
+          query(
+            `INSERT INTO "User" ("active", "createdAt", "balance", "views", "name") VALUES (?, ?, ?, ?, ?) RETURNING "id", "active", "createdAt"`,
+            [1, 1704067200000, "12.50", 7, "ada"],
+          ),
+        );
+        expect(inserted.columnTypes).toEqual([
+          ColumnTypeEnum.Int32,
+          ColumnTypeEnum.Boolean,
+          ColumnTypeEnum.DateTime,
+        ]);
+        expect(inserted.rows).toEqual([[1, true, "2024-01-01T00:00:00.000Z"]]);
+
+        const result = await driver.queryRaw(
+          query(
+            `SELECT "active", "createdAt", "balance", "views", "avatar", "name", "views" + 1 AS "next" FROM "User" WHERE "id" = ?`,
+            [1],
+          ),
+        );
+        expect(result.columnTypes).toEqual([
+          ColumnTypeEnum.Boolean,
+          ColumnTypeEnum.DateTime,
+          ColumnTypeEnum.Numeric,
+          ColumnTypeEnum.Int64,
+          ColumnTypeEnum.Bytes,
+          ColumnTypeEnum.Text,
+          ColumnTypeEnum.Int32,
+        ]);
+        expect(result.rows).toEqual([
+          [true, "2024-01-01T00:00:00.000Z", "12.5", "7", null, "ada", 8],
+        ]);
+      } finally {
+        await driver.dispose();
+      }
+    });
+  });
+
+  it("describes statements again after the schema changes", async () => {
+    await withDatabaseFile(async (filename) => {
+      const driver = await new BunSQLiteAdapter({ filename }).connect();
+      try {
+        await driver.executeScript(`CREATE TABLE "T" ("v" INTEGER); INSERT INTO "T" VALUES (1)`);
+        const sql = query(`SELECT "v" FROM "T"`);
+        expect((await driver.queryRaw(sql)).columnTypes).toEqual([ColumnTypeEnum.Int32]);
+
+        await driver.executeScript(
+          `DROP TABLE "T"; CREATE TABLE "T" ("v" BOOLEAN); INSERT INTO "T" VALUES (1)`,
+        );
+        const result = await driver.queryRaw(sql);
+        expect(result.columnTypes).toEqual([ColumnTypeEnum.Boolean]);
+        expect(result.rows).toEqual([[true]]);
+      } finally {
+        await driver.dispose();
+      }
+    });
+  });
+
+  it("types in-memory database columns from their values", async () => {
+    const driver = await new BunSQLiteAdapter(":memory:").connect();
+    try {
+      await driver.executeScript(SCHEMA);
+      await driver.executeRaw({
+        sql: `INSERT INTO "User" ("active", "createdAt", "balance", "views", "avatar", "name") VALUES (?, ?, ?, ?, ?, ?)`,
+        args: [1, "2024-01-02 03:04:05", 12.25, 9007199254740993n, new Uint8Array([1, 2, 3]), null],
+        argTypes: [],
+      });
+
+      const result = await driver.queryRaw({
+        sql: `SELECT "id", "active", "createdAt", "balance", "views", "avatar", "name" FROM "User"`,
+        args: [],
+        argTypes: [],
+      });
+
+      expect(result.columnTypes).toEqual([
+        ColumnTypeEnum.Int32,
+        ColumnTypeEnum.Int32,
+        ColumnTypeEnum.DateTime,
+        ColumnTypeEnum.Double,
+        ColumnTypeEnum.Int64,
+        ColumnTypeEnum.Bytes,
+        ColumnTypeEnum.UnknownNumber,
+      ]);
+      expect(result.rows).toEqual([
+        [1, 1, "2024-01-02T03:04:05.000Z", 12.25, "9007199254740993", [1, 2, 3], null],
+      ]);
+    } finally {
+      await driver.dispose();
+    }
+  });
+
+  it("doesn't take aliased columns' types from table columns of that name", async () => {
+    const driver = await new BunSQLiteAdapter(":memory:").connect();
+    try {
+      await driver.executeScript(SCHEMA);
+      await driver.executeRaw({
+        sql: `INSERT INTO "User" ("createdAt", "balance", "views", "name") VALUES (0, '1', 1, 'ada')`,
+        args: [],
+        argTypes: [],
+      });
+
+      const result = await driver.queryRaw({
+        sql: `SELECT COUNT(*) AS "active", "name" AS "balance" FROM "User"`,
+        args: [],
+        argTypes: [],
+      });
+
+      expect(result.columnNames).toEqual(["active", "balance"]);
+      expect(result.columnTypes).toEqual([ColumnTypeEnum.Int32, ColumnTypeEnum.Text]);
+      expect(result.rows).toEqual([[1, "ada"]]);
+    } finally {
+      await driver.dispose();
+    }
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "bun:test";
+import { BunMySQLAdapter, BunPostgresAdapter } from "../src/index.ts";
+import { BunPostgresAdapter as OptimizedBunPostgresAdapter } from "../src/optimized-index.ts";
+import { TemplateCache } from "../src/template-cache.ts";
+import { withFakeBun } from "./fake-bun-sql.ts";
+
+describe("template cache", () => {
+  it("evicts the least recently used query and counts hits and misses", () => {
+    const cache = new TemplateCache("postgres", 2);
+    const a = cache.compile("SELECT $1", 1);
+    cache.compile("SELECT $1, $2", 2);
+    expect(cache.compile("SELECT $1", 1)).toBe(a);
+    cache.compile("SELECT $1 + 1", 1);
+
+    expect(cache.stats()).toEqual({ size: 2, capacity: 2, hits: 1, misses: 3, evictions: 1 });
+    cache.compile("SELECT $1", 1);
+    cache.compile("SELECT $1, $2", 2);
+    expect(cache.stats()).toMatchObject({ hits: 2, misses: 4, evictions: 2 });
+  });
+
+  it("keys entries by argument count", () => {
+    const cache = new TemplateCache("postgres", 10);
+    expect(cache.compile("SELECT ?, ?", 2).argOrder).toEqual([0, 1]);
+    expect(() => cache.compile("SELECT ?, ?", 1)).toThrow("has no matching argument");
+    expect(cache.stats().size).toBe(1);
+  });
+
+  it("only counts when the capacity is 0", () => {
+    const cache = new TemplateCache("mysql", 0);
+    cache.compile("SELECT ?", 1);
+    cache.compile("SELECT ?", 1);
+    expect(cache.stats()).toEqual({ size: 0, capacity: 0, hits: 0, misses: 2, evictions: 0 });
+  });
+
+  it("gives every adapter its own cache", async () => {
+    await withFakeBun(undefined, async () => {
+      const postgres: any = await new BunPostgresAdapter({
+        connectionString: "postgres://u:p@db:5432/app",
+        templateCacheSize: 1,
+      }).connect();
+      const mysql: any = await new BunMySQLAdapter("mysql://u:p@db:3306/app").connect();
+      const optimized: any = await new OptimizedBunPostgresAdapter("postgres://u:p@db:5432/app").connect();
+
+      // The same text means different things to each dialect
+      const sql = "SELECT '$1', ?";
+      for (const driver of [postgres, mysql, optimized]) {
+        await driver.queryRaw({ sql, args: [1], argTypes: [] });
+        await driver.queryRaw({ sql, args: [2], argTypes: [] });
+      }
+      await postgres.queryRaw({ sql: "SELECT $1", args: [1], argTypes: [] });
+
+      expect(postgres.templateCacheStats()).toEqual({
+        size: 1,
+        capacity: 1,
+        hits: 1,
+        misses: 2,
+        evictions: 1,
+      });
+      expect(optimized.templateCacheStats()).toMatchObject({ size: 1, capacity: 500, hits: 1 });
+
+      await postgres.dispose();
+      expect(postgres.templateCacheStats().size).toBe(0);
+      expect(mysql.templateCacheStats()).toMatchObject({ size: 1, hits: 1, misses: 1 });
+      await mysql.dispose();
+      await optimized.dispose();
+    });
+  });
+
+  it("rejects invalid sizes", () => {
+    expect(
+      () => new BunPostgresAdapter({ connectionString: "postgres://db/app", templateCacheSize: -1 }).poolSettings,
+    ).toThrow("templateCacheSize must be a non-negative integer");
+  });
+});
@@ -0,0 +1,126 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { BunSQLiteAdapter, PoolTimeoutError } from "../src/index.ts";
+
+const query = (sql: string, args: unknown[] = []) => ({ sql, args, argTypes: [] });
+
+// Resolves to "pending" if `promise` hasn't settled after a few ticks
+const settledSoon = (promise: Promise<unknown>) =>
+  Promise.race([promise.then(() => "settled"), Bun.sleep(30).then(() => "pending")]);
+
+describe("SQLite write scheduler", () => {
+  let dir: string;
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "bun-adapter-writes-"));
+  });
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const connect = async (options: Record<string, unknown> = {}) => {
+    const driver: any = await new BunSQLiteAdapter({
+      filename: join(dir, "app.db"),
+      ...options,
+    }).connect();
+    await driver.executeScript("CREATE TABLE t (v INTEGER)");
+    return driver;
+  };
+
+  it("lets reads run while a write transaction holds the writer", async () => {
+    const driver = await connect({ writeScheduler: true });
+    try {
+      await driver.executeRaw(query("INSERT INTO t VALUES (1)"));
+      const tx = await driver.startTransaction();
+      await tx.executeRaw(query("INSERT INTO t VALUES (2)"));
+
+      // The read sees the last commit, not the open transaction
+      const read = driver.queryRaw(query("SELECT count(*) AS n FROM t"));
+      expect(await settledSoon(read)).toBe("settled");
+      expect((await read).rows).toEqual([[1]]);
+
+      const write = driver.executeRaw(query("INSERT INTO t VALUES (3)"));
+      expect(await settledSoon(write)).toBe("pending");
+      expect(driver.writeQueueStats()).toMatchObject({ active: true, queued: 1 });
+
+      await tx.commit();
+      await write;
+      expect((await driver.queryRaw(query("SELECT count(*) FROM t"))).rows).toEqual([[3]]);
+
+      const stats = driver.writeQueueStats();
+      expect(stats).toMatchObject({ active: false, queued: 0, timedOut: 0 });
+      expect(stats.maxWaitMs).toBeGreaterThanOrEqual(30);
+      expect(stats.averageWaitMs).toBe(stats.totalWaitMs / stats.acquired);
+    } finally {
+      await driver.dispose();
+    }
+  });
+
+  it("queues reads behind the writer without the scheduler", async () => {
+    const driver = await connect();
+    try {
+      const tx = await driver.startTransaction();
+      const read = driver.queryRaw(query("SELECT count(*) FROM t"));
+      expect(await settledSoon(read)).toBe("pending");
+      await tx.commit();
+      await read;
+    } finally {
+      await driver.dispose();
+    }
+  });
+
+  it("fails writes that wait longer than the timeout", async () => {
+    const driver = await connect({ poolTimeout: 5, writeScheduler: { timeout: 0.05 } });
+    try {
+      expect(driver.poolSettings.poolTimeout).toBe(0.05);
+      const tx = await driver.startTransaction();
+      const error = await driver.executeRaw(query("INSERT INTO t VALUES (1)")).catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(PoolTimeoutError);
+      expect(driver.writeQueueStats().timedOut).toBe(1);
+      await tx.rollback();
+    } finally {
+      await driver.dispose();
+    }
+  });
+
+  it("takes concurrent writes without SQLITE_BUSY", async () => {
+    const driver = await connect({ writeScheduler: true });
+    try {
+      await Promise.all(
+        Array.from({ length: 50 }, async (_, i) => {
+          if (i % 5 === 0) {
+            const tx = await driver.startTransaction();
+            await tx.executeRaw(query("INSERT INTO t VALUES (?)", [i]));
+            await tx.commit();
+          } else if (i % 2 === 0) {
+            await driver.queryRaw(query("SELECT count(*) FROM t"));
+          } else {
+            await driver.executeRaw(query("INSERT INTO t VALUES (?)", [i]));
+          }
+        }),
+      );
+      expect((await driver.queryRaw(query("SELECT count(*) FROM t"))).rows).toEqual([[30]]);
+    } finally {
+      await driver.dispose();
+    }
+  });
+
+  it("reads through the writer for in-memory databases", async () => {
+    const driver: any = await new BunSQLiteAdapter({
+      filename: ":memory:",
+      writeScheduler: true,
+    }).connect();
+    try {
+      await driver.executeScript("CREATE TABLE t (v INTEGER); INSERT INTO t VALUES (1)");
+      expect((await driver.queryRaw(query("SELECT v FROM t"))).rows).toEqual([[1]]);
+
+      // Each adapter gets its own database, not a file named ":memory:"
+      const other: any = await new BunSQLiteAdapter({ filename: ":memory:" }).connect();
+      await other.executeScript("CREATE TABLE t (v INTEGER)");
+      await other.dispose();
+    } finally {
+      await driver.dispose();
+    }
+  });
+});